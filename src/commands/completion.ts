@@ -0,0 +1,24 @@
+import chalk from "chalk";
+import type { Command } from "commander";
+import { getCompletionScript, getCompletions } from "../utils/completion.js";
+import { isSupportedShell, SUPPORTED_SHELLS } from "../utils/shell.js";
+
+export function completionHandler(shell: string) {
+    if (!isSupportedShell(shell)) {
+        console.error(chalk.red(`Unsupported shell "${shell}". Supported shells: ${SUPPORTED_SHELLS.join(", ")}`));
+        process.exit(1);
+    }
+
+    process.stdout.write(getCompletionScript(shell));
+}
+
+export async function completeHandler(program: Command, words: string[] = []) {
+    try {
+        const candidates = await getCompletions(program, words);
+        if (candidates.length > 0) {
+            console.log(candidates.join("\n"));
+        }
+    } catch {
+        // Completion must never print errors into the user's prompt
+    }
+}
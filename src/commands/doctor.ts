@@ -0,0 +1,63 @@
+import chalk from "chalk";
+import { runDoctorChecks, CheckResult, CheckStatus } from "../utils/doctor.js";
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+    pass: chalk.green("✓ pass"),
+    warn: chalk.yellow("! warn"),
+    fail: chalk.red("✗ fail"),
+};
+
+function printResult(result: CheckResult, nameWidth: number) {
+    console.log(`${STATUS_LABELS[result.status]}  ${chalk.bold(result.name.padEnd(nameWidth))}  ${result.message}`);
+    if (result.fix && result.status !== "pass") {
+        console.log(chalk.gray(`${" ".repeat(8 + nameWidth + 2)}→ ${result.fix}`));
+    }
+}
+
+export async function doctorHandler(options: { fix?: boolean } = {}) {
+    try {
+        let results = await runDoctorChecks();
+        const nameWidth = Math.max(...results.map(result => result.name.length));
+        results.forEach(result => printResult(result, nameWidth));
+
+        const repairable = results.filter(result => result.status !== "pass" && result.repair);
+
+        if (options.fix && repairable.length > 0) {
+            console.log();
+            console.log(chalk.blue(`Applying ${repairable.length} safe fix(es)...`));
+            for (const result of repairable) {
+                try {
+                    console.log(chalk.green(`  ${result.name}: ${await result.repair!()}`));
+                } catch (error: any) {
+                    console.error(chalk.red(`  ${result.name}: fix failed -`), error.stderr || error.message);
+                }
+            }
+
+            // Re-run so the summary and exit code reflect the repaired state
+            results = await runDoctorChecks();
+        } else if (repairable.length > 0) {
+            console.log();
+            console.log(chalk.cyan(`Run 'wt doctor --fix' to apply ${repairable.length} safe fix(es).`));
+        }
+
+        const failures = results.filter(result => result.status === "fail").length;
+        const warnings = results.filter(result => result.status === "warn").length;
+
+        console.log();
+        if (failures > 0) {
+            console.log(chalk.red(`${failures} problem(s), ${warnings} warning(s).`));
+            process.exit(1);
+        } else if (warnings > 0) {
+            console.log(chalk.yellow(`No problems, ${warnings} warning(s).`));
+        } else {
+            console.log(chalk.green("Everything looks good."));
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to run health checks:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to run health checks:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -0,0 +1,72 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { getWorktrees, WorktreeInfo } from "../utils/git.js";
+import { measureWorktree, WorktreeDiskUsage } from "../utils/disk.js";
+import { formatBytes } from "../utils/format.js";
+import { withSpinner } from "../utils/spinner.js";
+
+interface DiskUsageEntry {
+    worktree: WorktreeInfo;
+    usage: WorktreeDiskUsage;
+}
+
+export async function diskUsageHandler(options: { excludeMain?: boolean; json?: boolean } = {}) {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const worktrees = (await getWorktrees()).filter(wt =>
+            !wt.prunable && !wt.bare && !(options.excludeMain && wt.isMain)
+        );
+
+        if (worktrees.length === 0) {
+            if (options.json) {
+                console.log(JSON.stringify({ worktrees: [], total: 0 }, null, 2));
+            } else {
+                console.log(chalk.yellow("No worktrees to measure."));
+            }
+            return;
+        }
+
+        const measure = async () => Promise.all(
+            worktrees.map(async (worktree): Promise<DiskUsageEntry> => ({
+                worktree,
+                usage: await measureWorktree(worktree.path),
+            }))
+        );
+
+        // Keep stdout clean for JSON consumers
+        const entries = options.json
+            ? await measure()
+            : await withSpinner(`Measuring ${worktrees.length} worktree(s)...`, measure);
+
+        entries.sort((a, b) => b.usage.total - a.usage.total);
+        const total = entries.reduce((sum, entry) => sum + entry.usage.total, 0);
+
+        if (options.json) {
+            console.log(JSON.stringify({ worktrees: entries, total }, null, 2));
+            return;
+        }
+
+        const pad = (value: string) => value.padStart(10);
+        console.log(chalk.gray(`${pad("TOTAL")} ${pad("TRACKED")} ${pad("IGNORED")} ${pad("UNTRACKED")}  WORKTREE`));
+        for (const { worktree, usage } of entries) {
+            const label = worktree.branch
+                ? `${chalk.cyan(worktree.branch)} ${chalk.gray(worktree.path)}`
+                : chalk.gray(worktree.path);
+            console.log(
+                `${chalk.bold(pad(formatBytes(usage.total)))} ${pad(formatBytes(usage.tracked))} ` +
+                `${chalk.yellow(pad(formatBytes(usage.ignored)))} ${pad(formatBytes(usage.untracked))}  ${label}`
+            );
+        }
+        console.log();
+        console.log(chalk.bold(`${pad(formatBytes(total))} total across ${entries.length} worktree(s)`));
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to measure disk usage:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to measure disk usage:"), error);
+        }
+        process.exit(1);
+    }
+}
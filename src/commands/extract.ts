@@ -13,14 +13,18 @@ import {
 } from "../utils/git.js";
 import { resolveWorktreePath, validateBranchName } from "../utils/paths.js";
 import { AtomicWorktreeOperation } from "../utils/atomic.js";
+import { syncWorktreeFiles } from "../utils/files.js";
+import { installDependencies } from "../utils/install.js";
+import { reserveWorktreePorts } from "../utils/setup.js";
 import { handleDirtyState } from "../utils/tui.js";
 import { onShutdown } from "../utils/shutdown.js";
 
 export async function extractWorktreeHandler(
     branchName?: string,
-    options: { path?: string; install?: string; editor?: string } = {}
+    options: { path?: string; install?: string | boolean; editor?: string } = {}
 ) {
     let stashHash: string | null = null;
+    let installedWith: string[] = [];
     let unregisterShutdown: (() => void) | null = null;
 
     try {
@@ -146,10 +150,12 @@ export async function extractWorktreeHandler(
 
             console.log(chalk.green(`Successfully extracted branch "${selectedBranch}" to worktree.`));
 
+            // Bring over ignored files (.env, certificates, ...) configured in worktrees.json
+            await syncWorktreeFiles(atomic, resolvedPath);
+            await reserveWorktreePorts(atomic, resolvedPath, selectedBranch);
+
             // 9. Install dependencies if specified
-            if (options.install) {
-                await atomic.runInstall(options.install, resolvedPath);
-            }
+            installedWith = await installDependencies(atomic, resolvedPath, options.install);
 
             atomic.commit();
         } catch (error: any) {
@@ -176,8 +182,8 @@ export async function extractWorktreeHandler(
         }
 
         console.log(chalk.green(`\nWorktree extracted at ${resolvedPath}.`));
-        if (options.install) {
-            console.log(chalk.green(`Dependencies installed using ${options.install}.`));
+        if (installedWith.length > 0) {
+            console.log(chalk.green(`Dependencies installed using ${installedWith.join(", ")}.`));
         }
 
     } catch (error) {
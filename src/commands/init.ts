@@ -0,0 +1,92 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getRepoRoot } from "../utils/git.js";
+import { buildSetupFile, InitSuggestion, suggestSetupEntries } from "../utils/init.js";
+import { SETUP_FILE_PATHS } from "../utils/setup.js";
+import { toHookStep } from "../utils/steps.js";
+import { confirm, selectItems } from "../utils/tui.js";
+
+function describeSuggestion({ key, value, reason }: InitSuggestion): string {
+    const text = typeof value === "string" ? value : toHookStep(value).run;
+    return `${chalk.cyan(key)}  ${text} ${chalk.gray(`(${reason})`)}`;
+}
+
+export async function initHandler(options: { yes?: boolean; force?: boolean } = {}) {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const repoRoot = await getRepoRoot();
+        if (!repoRoot) {
+            throw new Error("Could not determine the repository root.");
+        }
+
+        const exists = (relativePath: string) => stat(join(repoRoot, relativePath)).then(() => true, () => false);
+        const [cursorPath, ...ownPaths] = SETUP_FILE_PATHS;
+        const existing = [];
+        for (const relativePath of ownPaths) {
+            if (await exists(relativePath)) existing.push(relativePath);
+        }
+        if (existing.length > 0 && !options.force) {
+            console.error(chalk.red(`${existing.join(", ")} already exists. Use --force to replace it, or check it with 'wt setup validate'.`));
+            process.exit(1);
+        }
+        // Only JSON is generated; replacing a YAML file would leave two setup files behind
+        const yamlFile = existing.find(relativePath => relativePath !== "worktrees.json");
+        if (yamlFile) {
+            console.error(chalk.red(`${yamlFile} already exists and 'wt init' only writes worktrees.json. Edit ${yamlFile} directly, or delete it and run 'wt init' again.`));
+            process.exit(1);
+        }
+
+        const suggestions = await suggestSetupEntries(repoRoot);
+        if (suggestions.length === 0) {
+            console.log(chalk.yellow("Found nothing to set up (no lockfiles, env files, Docker Compose files or .cursor/worktrees.json)."));
+            console.log(chalk.gray("See the README for the setup file format."));
+            return;
+        }
+
+        let selected = suggestions.filter(suggestion => suggestion.selected);
+        if (!options.yes) {
+            const picked = await selectItems("Select the entries for worktrees.json", suggestions.map(suggestion => ({
+                title: describeSuggestion(suggestion),
+                value: suggestion,
+                selected: suggestion.selected,
+            })));
+            if (picked === null) {
+                console.log(chalk.yellow("Cancelled."));
+                return;
+            }
+            selected = picked;
+        }
+
+        if (selected.length === 0) {
+            console.log(chalk.yellow("Nothing selected; worktrees.json was not written."));
+            return;
+        }
+
+        const content = JSON.stringify(buildSetupFile(selected), null, 2) + "\n";
+        if (!options.yes) {
+            console.log(chalk.gray(`\n${content}`));
+            if (!await confirm("Write worktrees.json?", true)) {
+                console.log(chalk.yellow("Cancelled."));
+                return;
+            }
+        }
+
+        await writeFile(join(repoRoot, "worktrees.json"), content);
+        console.log(chalk.green(`Created ${join(repoRoot, "worktrees.json")}.`));
+        if (await exists(cursorPath)) {
+            console.log(chalk.yellow(`${cursorPath} is read first, so hooks it defines take precedence; remove them there to use worktrees.json.`));
+        }
+        console.log(chalk.gray("Preview a worktree with 'wt setup <branch> --dry-run', then commit the file to share it."));
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to create setup file:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to create setup file:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -1,26 +1,242 @@
 import { execa } from "execa";
 import chalk from "chalk";
-import { getWorktrees } from "../utils/git.js";
+import { stat } from "node:fs/promises";
+import {
+    getWorktrees,
+    getUpstreamBranch,
+    getStatusCounts,
+    getDefaultBranch,
+    totalChanges,
+    WorktreeInfo,
+} from "../utils/git.js";
+import { renderTemplate, formatBytes } from "../utils/format.js";
+import { measureWorktree } from "../utils/disk.js";
+import { collectWorktreeStatus, parseDuration, WorktreeStatus } from "../utils/status.js";
 
-export async function listWorktreesHandler() {
+export interface ListOptions {
+    json?: boolean;
+    format?: string;
+    dirty?: boolean;
+    clean?: boolean;
+    merged?: boolean;
+    stale?: string;
+    locked?: boolean;
+    prunable?: boolean;
+    sort?: string;
+    size?: boolean;
+}
+
+const SORT_KEYS = ["branch", "path", "age", "activity"] as const;
+type SortKey = typeof SORT_KEYS[number];
+
+/**
+ * A worktree entry enriched with derived state, as emitted by `wt list --json`
+ */
+export interface WorktreeListEntry extends Omit<WorktreeInfo, 'lockReason' | 'pruneReason'> {
+    /** Lock reason, or null when not locked (always present for stable output) */
+    lockReason: string | null;
+    /** Prune reason, or null when not prunable (always present for stable output) */
+    pruneReason: string | null;
+    /** Whether the worktree has uncommitted changes (null if it could not be checked) */
+    dirty: boolean | null;
+    /** Upstream tracking branch (e.g., "origin/feature-x"), or null if none */
+    upstream: string | null;
+    /** Disk usage in bytes (only measured with --size, otherwise null) */
+    size: number | null;
+}
+
+/**
+ * Check whether a worktree has uncommitted changes
+ *
+ * @returns true/false, or null if the worktree can't be inspected (e.g., missing directory)
+ */
+async function getDirtyState(wt: WorktreeInfo): Promise<boolean | null> {
+    if (wt.bare || wt.prunable) {
+        return null;
+    }
+    const counts = await getStatusCounts(wt.path);
+    if (!counts) {
+        return null;
+    }
+    return totalChanges(counts) > 0;
+}
+
+/**
+ * Enrich a worktree with derived fields for machine-readable output
+ */
+async function toListEntry(wt: WorktreeInfo, withSize: boolean): Promise<WorktreeListEntry> {
+    const [dirty, upstream, size] = await Promise.all([
+        getDirtyState(wt),
+        wt.branch && !wt.prunable ? getUpstreamBranch(wt.path) : Promise.resolve(null),
+        withSize ? getSize(wt) : Promise.resolve(null),
+    ]);
+
+    return {
+        ...wt,
+        lockReason: wt.lockReason ?? null,
+        pruneReason: wt.pruneReason ?? null,
+        dirty,
+        upstream,
+        size,
+    };
+}
+
+/**
+ * Measure the total disk usage of a worktree, or null if it can't be measured
+ */
+async function getSize(wt: WorktreeInfo): Promise<number | null> {
+    if (wt.bare || wt.prunable) {
+        return null;
+    }
+    try {
+        return (await measureWorktree(wt.path)).total;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse a --sort value such as "activity" or "-branch" (leading "-" reverses the order)
+ */
+function parseSort(sort: string): { key: SortKey; reverse: boolean } {
+    const reverse = sort.startsWith("-");
+    const key = (reverse ? sort.slice(1) : sort) as SortKey;
+    if (!SORT_KEYS.includes(key)) {
+        throw new Error(`Invalid sort key "${sort}". Use one of: ${SORT_KEYS.join(", ")}`);
+    }
+    return { key, reverse };
+}
+
+/**
+ * Get when a worktree directory was created (falls back to ctime where birthtime is unsupported)
+ */
+async function getCreatedAt(wt: WorktreeInfo): Promise<number> {
+    try {
+        const stats = await stat(wt.path);
+        return stats.birthtimeMs || stats.ctimeMs;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Apply the --dirty/--clean/--merged/--stale/--locked/--prunable filters and --sort order
+ *
+ * Full status is only collected when a filter or sort key needs it, so a plain
+ * `wt list` stays a single git call.
+ */
+async function filterAndSortWorktrees(worktrees: WorktreeInfo[], options: ListOptions): Promise<WorktreeInfo[]> {
+    const sort = options.sort ? parseSort(options.sort) : null;
+    const staleMs = options.stale ? parseDuration(options.stale) : null;
+
+    const needsStatus = !!(options.dirty || options.clean || options.merged || staleMs !== null || sort?.key === "activity");
+    let statuses = new Map<WorktreeInfo, WorktreeStatus>();
+    if (needsStatus) {
+        const defaultBranch = await getDefaultBranch();
+        const collected = await Promise.all(worktrees.map(wt => collectWorktreeStatus(wt, defaultBranch)));
+        statuses = new Map(collected.map(status => [status.worktree, status]));
+    }
+
+    const now = Date.now();
+    const filtered = worktrees.filter(wt => {
+        const status = statuses.get(wt);
+        const changes = status?.changes;
+
+        if (options.locked && !wt.locked) return false;
+        if (options.prunable && !wt.prunable) return false;
+        if (options.dirty && !(changes && totalChanges(changes) > 0)) return false;
+        if (options.clean && !(changes && totalChanges(changes) === 0)) return false;
+        if (options.merged && status?.merged !== true) return false;
+        if (staleMs !== null) {
+            const lastCommit = status?.lastCommit;
+            if (!lastCommit || now - lastCommit.timestamp * 1000 < staleMs) return false;
+        }
+        return true;
+    });
+
+    if (!sort) {
+        return filtered;
+    }
+
+    // Pre-compute sort values so comparisons don't hit the filesystem
+    const values = new Map<WorktreeInfo, string | number>();
+    for (const wt of filtered) {
+        switch (sort.key) {
+            case "branch":
+                values.set(wt, wt.branch ?? "");
+                break;
+            case "path":
+                values.set(wt, wt.path);
+                break;
+            case "age":
+                // Newest first: negate so ascending order puts recent worktrees on top
+                values.set(wt, -(await getCreatedAt(wt)));
+                break;
+            case "activity":
+                // Most recently committed first
+                values.set(wt, -(statuses.get(wt)?.lastCommit?.timestamp ?? 0));
+                break;
+        }
+    }
+
+    const sorted = [...filtered].sort((a, b) => {
+        const av = values.get(a)!;
+        const bv = values.get(b)!;
+        const result = typeof av === "number" && typeof bv === "number"
+            ? av - bv
+            : String(av).localeCompare(String(bv));
+        return sort.reverse ? -result : result;
+    });
+    return sorted;
+}
+
+export async function listWorktreesHandler(options: ListOptions = {}) {
     try {
         // Confirm we're in a git repo
         await execa("git", ["rev-parse", "--is-inside-work-tree"]);
 
+        if (options.dirty && options.clean) {
+            throw new Error("--dirty and --clean cannot be used together.");
+        }
+
         // Get worktrees using the robust parsing utility
-        const worktrees = await getWorktrees();
+        const allWorktrees = await getWorktrees();
+        const worktrees = await filterAndSortWorktrees(allWorktrees, options);
+
+        // Machine-readable output modes
+        // Git queries for each worktree run in parallel through the shared pool in utils/query.ts
+        if (options.json || options.format) {
+            const entries = await Promise.all(worktrees.map(wt => toListEntry(wt, !!options.size)));
+
+            if (options.json) {
+                console.log(JSON.stringify(entries, null, 2));
+            } else {
+                for (const entry of entries) {
+                    console.log(renderTemplate(options.format!, entry));
+                }
+            }
+            return;
+        }
 
         if (worktrees.length === 0) {
-            console.log(chalk.yellow("No worktrees found."));
+            console.log(chalk.yellow(allWorktrees.length === 0 ? "No worktrees found." : "No worktrees match the given filters."));
             return;
         }
 
+        const sizes = options.size ? await Promise.all(worktrees.map(getSize)) : [];
+
         console.log(chalk.blue("Existing worktrees:\n"));
 
-        for (const wt of worktrees) {
+        for (const [index, wt] of worktrees.entries()) {
             // Build the display string
             const parts: string[] = [];
 
+            // Disk usage column
+            if (options.size) {
+                const size = sizes[index];
+                parts.push(chalk.bold((size === null ? "-" : formatBytes(size)).padStart(10)));
+            }
+
             // Path
             parts.push(wt.path);
 
@@ -52,6 +268,10 @@ export async function listWorktreesHandler() {
             console.log(parts.join(' '));
         }
 
+        if (worktrees.some(wt => wt.prunable)) {
+            console.log(chalk.gray("\nRun 'wt prune' to clean up prunable worktrees."));
+        }
+
     } catch (error) {
         if (error instanceof Error) {
             console.error(chalk.red("Error listing worktrees:"), error.message);
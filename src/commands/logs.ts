@@ -0,0 +1,111 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { open, readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { findWorktree } from "../utils/git.js";
+import { findLatestLog, getLogPath, getRunPid, isRunFinished } from "../utils/logs.js";
+import { runGit } from "../utils/query.js";
+
+const FOLLOW_INTERVAL_MS = 500;
+
+/**
+ * Work out which worktree's log to show
+ *
+ * A branch whose worktree no longer exists (e.g. after a rollback) still
+ * resolves to its most recent log.
+ *
+ * @returns The name to report and the log file, or null if there is none
+ */
+async function resolveLog(pathOrBranch: string): Promise<{ name: string; logPath: string | null }> {
+    if (pathOrBranch) {
+        const worktree = await findWorktree(pathOrBranch);
+        if (!worktree) {
+            return { name: pathOrBranch, logPath: await findLatestLog(pathOrBranch) };
+        }
+        const name = worktree.branch ?? basename(worktree.path);
+        return { name, logPath: await getLogPath(worktree.path, name) };
+    }
+
+    const { stdout } = await runGit(["rev-parse", "--show-toplevel"]);
+    const worktreePath = stdout.trim();
+    const branch = await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], { reject: false });
+    const name = branch.exitCode === 0 ? branch.stdout.trim() : basename(worktreePath);
+    return { name, logPath: await getLogPath(worktreePath, name) };
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        // EPERM means the process exists but belongs to someone else
+        return error?.code === "EPERM";
+    }
+}
+
+/**
+ * Print new content appended to a log until its run finishes
+ */
+async function followLog(logPath: string, offset: number, pid: number | null): Promise<void> {
+    let tail = "";
+    for (;;) {
+        await new Promise(resolve => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+
+        const handle = await open(logPath, "r");
+        try {
+            const { size } = await handle.stat();
+            if (size < offset) {
+                // A new run replaced the log
+                console.log(chalk.yellow("\nThe log was replaced by a new run."));
+                return;
+            }
+            if (size > offset) {
+                const buffer = Buffer.alloc(size - offset);
+                await handle.read(buffer, 0, buffer.length, offset);
+                offset = size;
+                const text = buffer.toString("utf-8");
+                process.stdout.write(text);
+                tail = (tail + text).slice(-200);
+            }
+        } finally {
+            await handle.close();
+        }
+
+        if (isRunFinished(tail)) {
+            return;
+        }
+        if (pid !== null && !isProcessAlive(pid)) {
+            console.log(chalk.yellow("\nThe run ended without finishing (the process was killed)."));
+            return;
+        }
+    }
+}
+
+export async function logsHandler(pathOrBranch: string = "", options: { follow?: boolean } = {}) {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const { name, logPath } = await resolveLog(pathOrBranch);
+
+        const content = logPath ? await readFile(logPath, "utf-8").catch(() => null) : null;
+        if (!logPath || content === null) {
+            console.error(chalk.yellow(`No setup or install log for "${name}".`));
+            console.error(chalk.gray("Logs are written when wt new, setup, pr or extract create a worktree."));
+            process.exit(1);
+        }
+
+        process.stdout.write(content);
+
+        if (options.follow && !isRunFinished(content)) {
+            await followLog(logPath, Buffer.byteLength(content), getRunPid(content));
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to show logs:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to show logs:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -4,6 +4,8 @@ import { stat, rm } from "node:fs/promises";
 import { resolve } from "node:path";
 import { isMainRepoBare, isWorktreeClean } from "../utils/git.js";
 import { withSpinner } from "../utils/spinner.js";
+import { runHookCommands } from "../utils/setup.js";
+import { describePortBlock, releasePorts } from "../utils/ports.js";
 
 export async function mergeWorktreeHandler(
     branchName: string,
@@ -12,6 +14,7 @@ export async function mergeWorktreeHandler(
         autoCommit?: boolean;
         message?: string;
         remove?: boolean;
+        trust?: boolean;
     }
 ) {
     try {
@@ -92,15 +95,20 @@ export async function mergeWorktreeHandler(
             `Merged branch "${branchName}" into "${currentBranch}".`
         );
 
-        // Step 4: Remove the worktree if --remove flag is set
+        // Step 4: Run post-merge hooks in the worktree that was merged into
+        await runHookCommands("post-merge", process.cwd(), { trust: options.trust });
+
+        // Step 5: Remove the worktree if --remove flag is set
         if (options.remove) {
             if (await isMainRepoBare()) {
                 console.error(chalk.red("❌ Error: The main repository is configured as 'bare' (core.bare=true)."));
                 console.error(chalk.red("   This prevents normal Git operations. Please fix the configuration:"));
-                console.error(chalk.cyan("   git config core.bare false"));
+                console.error(chalk.cyan("   git config core.bare false   (or run 'wt doctor --fix')"));
                 process.exit(1);
             }
 
+            await runHookCommands("teardown-worktree", targetPath, { trust: options.trust });
+
             const removeArgs = ["worktree", "remove", ...(options.force ? ["--force"] : []), targetPath];
             await withSpinner(
                 `Removing worktree for branch "${branchName}"...`,
@@ -118,6 +126,11 @@ export async function mergeWorktreeHandler(
             } catch {
                 // If the directory does not exist, it's fine
             }
+
+            const released = await releasePorts(targetPath);
+            if (released) {
+                console.log(chalk.gray(`Released ${describePortBlock(released)}.`));
+            }
         } else {
             console.log(chalk.blue(`Worktree for branch "${branchName}" at ${targetPath} has been preserved.`));
             console.log(chalk.yellow(`Use 'wt remove ${branchName}' to clean it up when ready.`));
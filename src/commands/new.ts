@@ -13,14 +13,20 @@ import {
 } from "../utils/git.js";
 import { resolveWorktreePath, validateBranchName } from "../utils/paths.js";
 import { AtomicWorktreeOperation } from "../utils/atomic.js";
+import { syncWorktreeFiles } from "../utils/files.js";
+import { installDependencies } from "../utils/install.js";
+import { reserveWorktreePorts } from "../utils/setup.js";
 import { handleDirtyState, confirm } from "../utils/tui.js";
+import { buildWorktreePlan, printWorktreePlan } from "../utils/plan.js";
 import { onShutdown } from "../utils/shutdown.js";
+import { requestShellCd } from "../utils/shell.js";
 
 export async function newWorktreeHandler(
     branchName?: string,
-    options: { path?: string; checkout?: boolean; install?: string; editor?: string; stash?: boolean } = {}
+    options: { path?: string; checkout?: boolean; install?: string | boolean; editor?: string; stash?: boolean; cd?: boolean; dryRun?: boolean } = {}
 ) {
     let stashHash: string | null = null;
+    let installedWith: string[] = [];
     let unregisterShutdown: (() => void) | null = null;
 
     try {
@@ -42,6 +48,17 @@ export async function newWorktreeHandler(
             process.exit(1);
         }
 
+        if (options.dryRun) {
+            printWorktreePlan(await buildWorktreePlan({
+                command: `wt new ${branchName}`,
+                branch: branchName,
+                customPath: options.path,
+                install: options.install,
+                editor: options.editor,
+            }));
+            return;
+        }
+
         // 2. Check if this is a bare repository (Improvement #2)
         const isBare = await isMainRepoBare();
 
@@ -138,10 +155,12 @@ export async function newWorktreeHandler(
                     await atomic.createWorktree(resolvedPath, branchName, false);
                 }
 
+                // Bring over ignored files (.env, certificates, ...) configured in worktrees.json
+                await syncWorktreeFiles(atomic, resolvedPath);
+                await reserveWorktreePorts(atomic, resolvedPath, branchName);
+
                 // Run install if specified
-                if (options.install) {
-                    await atomic.runInstall(options.install, resolvedPath);
-                }
+                installedWith = await installDependencies(atomic, resolvedPath, options.install);
 
                 // Commit the atomic operation
                 atomic.commit();
@@ -169,8 +188,14 @@ export async function newWorktreeHandler(
         }
 
         console.log(chalk.green(`Worktree ${directoryExists ? "opened" : "created"} at ${resolvedPath}.`));
-        if (!directoryExists && options.install) {
-            console.log(chalk.green(`Dependencies installed using ${options.install}.`));
+        if (installedWith.length > 0) {
+            console.log(chalk.green(`Dependencies installed using ${installedWith.join(", ")}.`));
+        }
+
+        // 8. Change the calling shell into the worktree (requires `wt shell-init`)
+        if (options.cd && !(await requestShellCd(resolvedPath))) {
+            console.log(chalk.yellow(`Shell integration is not enabled; run: cd "${resolvedPath}"`));
+            console.log(chalk.gray(`Enable it with: eval "$(wt shell-init zsh)"  (or bash / fish)`));
         }
 
     } catch (error) {
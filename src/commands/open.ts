@@ -5,10 +5,11 @@ import { resolve } from "node:path";
 import { getDefaultEditor, shouldSkipEditor } from "../config.js";
 import { getWorktrees, findWorktreeByBranch, findWorktreeByPath, WorktreeInfo } from "../utils/git.js";
 import { selectWorktree } from "../utils/tui.js";
+import { runHookCommands } from "../utils/setup.js";
 
 export async function openWorktreeHandler(
     pathOrBranch: string = "",
-    options: { editor?: string }
+    options: { editor?: string; trust?: boolean }
 ) {
     try {
         // 1. Validate we're in a git repo
@@ -79,7 +80,7 @@ export async function openWorktreeHandler(
             await stat(targetPath);
         } catch {
             console.error(chalk.red(`The worktree path "${targetPath}" no longer exists.`));
-            console.error(chalk.yellow("The worktree may have been removed. Run 'git worktree prune' to clean up."));
+            console.error(chalk.yellow("The worktree may have been removed. Run 'wt prune' to clean up."));
             process.exit(1);
         }
 
@@ -118,6 +119,9 @@ export async function openWorktreeHandler(
                 process.exit(1);
             }
         }
+
+        // Run post-open hooks in the opened worktree
+        await runHookCommands("post-open", targetPath, { trust: options.trust });
     } catch (error) {
         if (error instanceof Error) {
             console.error(chalk.red("Failed to open worktree:"), error.message);
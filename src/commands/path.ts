@@ -0,0 +1,83 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { stat } from "node:fs/promises";
+import { findWorktree, WorktreeInfo } from "../utils/git.js";
+import { selectWorktree } from "../utils/tui.js";
+import { requestShellCd } from "../utils/shell.js";
+
+/**
+ * Resolve a worktree from a path or branch, prompting when none is given
+ *
+ * All messages and the prompt itself go to stderr so stdout only ever
+ * contains the resolved path.
+ */
+async function resolveTargetPath(pathOrBranch: string, message: string): Promise<string> {
+    let target: WorktreeInfo | null;
+
+    if (!pathOrBranch) {
+        const selected = await selectWorktree({ message, output: process.stderr });
+        if (!selected || Array.isArray(selected)) {
+            console.error(chalk.yellow("No worktree selected."));
+            process.exit(1);
+        }
+        target = selected;
+    } else {
+        target = await findWorktree(pathOrBranch);
+        if (!target) {
+            console.error(chalk.red(`Could not find a worktree for "${pathOrBranch}".`));
+            console.error(chalk.yellow("Use 'wt list' to see existing worktrees."));
+            process.exit(1);
+        }
+    }
+
+    try {
+        await stat(target.path);
+    } catch {
+        console.error(chalk.red(`The worktree path "${target.path}" no longer exists.`));
+        console.error(chalk.yellow("The worktree may have been removed. Run 'wt prune' to clean up."));
+        process.exit(1);
+    }
+
+    return target.path;
+}
+
+export async function pathHandler(pathOrBranch: string = "") {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const targetPath = await resolveTargetPath(pathOrBranch, "Select a worktree");
+        console.log(targetPath);
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to resolve worktree path:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to resolve worktree path:"), error);
+        }
+        process.exit(1);
+    }
+}
+
+export async function cdHandler(pathOrBranch: string = "") {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const targetPath = await resolveTargetPath(pathOrBranch, "Select a worktree to cd into");
+
+        if (!(await requestShellCd(targetPath))) {
+            // Without the wrapper we can't change the parent shell's directory,
+            // so print the path for manual use and explain how to enable it
+            console.log(targetPath);
+            console.error(chalk.yellow("Shell integration is not enabled, so 'wt cd' can't change your directory."));
+            console.error(chalk.yellow(`Add this to your shell config: eval "$(wt shell-init zsh)"  (or bash / fish)`));
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to change directory:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to change directory:"), error);
+        }
+        process.exit(1);
+    }
+}
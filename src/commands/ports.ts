@@ -0,0 +1,49 @@
+import chalk from "chalk";
+import { stat } from "node:fs/promises";
+import { describePortBlock, getPortAssignments } from "../utils/ports.js";
+
+export async function portsHandler(options: { json?: boolean } = {}) {
+    try {
+        const assignments = [...getPortAssignments()].sort((a, b) => a.base - b.base);
+
+        if (options.json) {
+            console.log(JSON.stringify(assignments, null, 2));
+            return;
+        }
+
+        if (assignments.length === 0) {
+            console.log(chalk.yellow("No ports assigned."));
+            console.log(chalk.gray("Add \"ports\" to worktrees.json to give each new worktree its own ports."));
+            return;
+        }
+
+        console.log(chalk.blue("Port assignments:\n"));
+        let missing = 0;
+        for (const assignment of assignments) {
+            const exists = await stat(assignment.path).then(() => true, () => false);
+            const parts = [
+                chalk.bold(describePortBlock(assignment).replace(/^ports? /, "").padEnd(11)),
+                assignment.path,
+            ];
+            if (assignment.branch) {
+                parts.push(chalk.cyan(`[${assignment.branch}]`));
+            }
+            if (!exists) {
+                parts.push(chalk.gray("(missing)"));
+                missing++;
+            }
+            console.log(parts.join(" "));
+        }
+
+        if (missing > 0) {
+            console.log(chalk.gray("\nPorts of missing worktrees are reused the next time ports are assigned."));
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to list port assignments:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to list port assignments:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -13,9 +13,12 @@ import {
     getUpstreamRemote,
 } from "../utils/git.js";
 import { resolveWorktreePath } from "../utils/paths.js";
-import { runSetupScriptsSecure } from "../utils/setup.js";
+import { ensureSetupProfile, parseSetupFailureMode, reserveWorktreePorts, runSetupScriptsSecure } from "../utils/setup.js";
 import { AtomicWorktreeOperation } from "../utils/atomic.js";
+import { syncWorktreeFiles } from "../utils/files.js";
+import { installDependencies } from "../utils/install.js";
 import { handleDirtyState, selectPullRequest } from "../utils/tui.js";
+import { buildWorktreePlan, printWorktreePlan } from "../utils/plan.js";
 import { withSpinner } from "../utils/spinner.js";
 import { onShutdown } from "../utils/shutdown.js";
 
@@ -198,6 +201,18 @@ async function getBranchNameFromPR(prNumber: string, provider: GitProvider): Pro
     }
 }
 
+/**
+ * git arguments that fetch a PR/MR branch into a local branch
+ *
+ * GitHub exposes PR heads as `refs/pull/<n>/head`; GitLab MRs are fetched
+ * from their source branch.
+ */
+function getFetchArgs(remote: string, prNumber: string, sourceBranch: string, localBranchName: string, provider: GitProvider): string[] {
+    return provider === 'gh'
+        ? ["fetch", remote, `refs/pull/${prNumber}/head:${localBranchName}`]
+        : ["fetch", remote, `${sourceBranch}:${localBranchName}`];
+}
+
 /**
  * Fetch PR branch directly without checkout (Improvement #3)
  *
@@ -214,10 +229,7 @@ async function fetchPRBranch(prNumber: string, localBranchName: string, provider
         await withSpinner(
             `Fetching ${requestType} #${prNumber} from remote...`,
             async () => {
-                await execa("git", [
-                    "fetch", remote,
-                    `refs/pull/${prNumber}/head:${localBranchName}`,
-                ]);
+                await execa("git", getFetchArgs(remote, prNumber, localBranchName, localBranchName, provider));
             },
             `Successfully fetched ${requestType} #${prNumber} branch "${localBranchName}".`
         );
@@ -228,10 +240,7 @@ async function fetchPRBranch(prNumber: string, localBranchName: string, provider
         await withSpinner(
             `Fetching ${requestType} #${prNumber} from remote...`,
             async () => {
-                await execa("git", [
-                    "fetch", remote,
-                    `${branchName}:${localBranchName}`,
-                ]);
+                await execa("git", getFetchArgs(remote, prNumber, branchName, localBranchName, provider));
             },
             `Successfully fetched ${requestType} #${prNumber} branch "${localBranchName}".`
         );
@@ -240,7 +249,7 @@ async function fetchPRBranch(prNumber: string, localBranchName: string, provider
 
 export async function prWorktreeHandler(
     prNumber?: string,
-    options: { path?: string; install?: string; editor?: string; setup?: boolean; trust?: boolean } = {}
+    options: { path?: string; install?: string | boolean; editor?: string; setup?: boolean; trust?: boolean; onSetupFailure?: string; profile?: string; dryRun?: boolean } = {}
 ) {
     let stashHash: string | null = null;
     let unregisterShutdown: (() => void) | null = null;
@@ -259,6 +268,8 @@ export async function prWorktreeHandler(
         }
         const isPR = provider === 'gh';
         const requestType = isPR ? "PR" : "MR";
+        const onFailure = parseSetupFailureMode(options.onSetupFailure);
+        await ensureSetupProfile(options.profile);
 
         // 3. Interactive PR selection if no number provided (Improvement #4)
         if (!prNumber) {
@@ -270,6 +281,23 @@ export async function prWorktreeHandler(
             prNumber = selectedPR;
         }
 
+        if (options.dryRun) {
+            // Resolving the branch name only queries the provider; the fetch itself is just shown
+            const prBranchName = await getBranchNameFromPR(prNumber, provider);
+            printWorktreePlan(await buildWorktreePlan({
+                command: `wt pr ${prNumber}`,
+                branch: prBranchName,
+                customPath: options.path,
+                fetch: getFetchArgs(await getUpstreamRemote(), prNumber, prBranchName, prBranchName, provider),
+                install: options.install,
+                editor: options.editor,
+                ...((options.setup || options.profile) && {
+                    setup: { profile: options.profile, onFailure, context: { prNumber: String(prNumber) } },
+                }),
+            }));
+            return;
+        }
+
         // 4. Check if main worktree is clean (Improvement #5)
         const isBare = await isMainRepoBare();
 
@@ -342,6 +370,7 @@ export async function prWorktreeHandler(
         }
 
         let worktreeCreated = false;
+        let installedWith: string[] = [];
 
         if (directoryExists) {
             console.log(chalk.yellow(`Directory already exists at: ${resolvedPath}`));
@@ -369,11 +398,19 @@ export async function prWorktreeHandler(
                 await atomic.createWorktree(resolvedPath, prBranchName, false);
                 worktreeCreated = true;
 
-                // 10. Run setup scripts if requested (with secure confirmation)
-                if (options.setup) {
+                // Bring over ignored files (.env, certificates, ...) configured in worktrees.json
+                await syncWorktreeFiles(atomic, resolvedPath);
+                await reserveWorktreePorts(atomic, resolvedPath, prBranchName);
+
+                // 10. Run setup scripts if requested (with secure confirmation); --profile implies --setup
+                if (options.setup || options.profile) {
                     console.log(chalk.blue("Running setup scripts..."));
                     const setupRan = await runSetupScriptsSecure(resolvedPath, {
                         trust: options.trust,
+                        onFailure,
+                        atomic,
+                        profile: options.profile,
+                        context: { branch: prBranchName, prNumber: String(prNumber) },
                     });
                     if (!setupRan) {
                         console.log(chalk.yellow("No setup file found (.cursor/worktrees.json or worktrees.json)."));
@@ -381,9 +418,7 @@ export async function prWorktreeHandler(
                 }
 
                 // 11. Install dependencies if requested
-                if (options.install) {
-                    await atomic.runInstall(options.install, resolvedPath);
-                }
+                installedWith = await installDependencies(atomic, resolvedPath, options.install);
 
                 atomic.commit();
             } catch (error: any) {
@@ -410,8 +445,8 @@ export async function prWorktreeHandler(
         }
 
         console.log(chalk.green(`Worktree for ${requestType} #${prNumber} (${prBranchName}) ${worktreeCreated ? "created" : "found"} at ${resolvedPath}.`));
-        if (worktreeCreated && options.install) {
-            console.log(chalk.green(`Dependencies installed using ${options.install}.`));
+        if (installedWith.length > 0) {
+            console.log(chalk.green(`Dependencies installed using ${installedWith.join(", ")}.`));
         }
         console.log(chalk.green(`Ready for work. Use 'git push' inside the worktree directory to update the ${requestType}.`));
 
@@ -0,0 +1,91 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { rm } from "node:fs/promises";
+import { getStaleWorktreeEntries, findOrphanedDirectories, findRelocatedWorktrees } from "../utils/prune.js";
+import { confirm } from "../utils/tui.js";
+
+export async function pruneWorktreesHandler(options: { dryRun?: boolean; yes?: boolean } = {}) {
+    try {
+        // Ensure we're in a Git repository
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        // 1. Stale metadata that `git worktree prune` would remove
+        const staleEntries = await getStaleWorktreeEntries();
+
+        // Moved worktrees also look stale to git; pruning would unregister them
+        const relocated = await findRelocatedWorktrees();
+
+        if (relocated.length > 0) {
+            console.log(chalk.yellow(`Found ${relocated.length} worktree(s) that were moved rather than deleted:`));
+            for (const wt of relocated) {
+                console.log(chalk.cyan(`  ${wt.oldPath}`), chalk.gray(`→ ${wt.newPath}`));
+            }
+            console.log(chalk.yellow("Run 'wt repair' to re-link them first; 'git worktree prune' would unregister them."));
+            console.log();
+        }
+
+        if (staleEntries.length === 0) {
+            console.log(chalk.green("No stale worktree metadata to prune."));
+        } else {
+            console.log(chalk.blue(`Found ${staleEntries.length} stale worktree entr${staleEntries.length === 1 ? "y" : "ies"}:`));
+            for (const entry of staleEntries) {
+                console.log(chalk.cyan(`  ${entry.name}`), chalk.gray(`(${entry.reason})`));
+            }
+            console.log();
+
+            if (relocated.length > 0) {
+                console.log(chalk.gray("Skipped 'git worktree prune' until moved worktrees are repaired."));
+            } else if (options.dryRun) {
+                console.log(chalk.gray("Dry run: 'git worktree prune' was not run."));
+            } else if (options.yes || await confirm("Prune these entries with 'git worktree prune'?", true)) {
+                await execa("git", ["worktree", "prune"]);
+                console.log(chalk.green("Pruned stale worktree metadata."));
+            } else {
+                console.log(chalk.yellow("Skipped pruning worktree metadata."));
+            }
+        }
+
+        // 2. Leftover directories git no longer knows about
+        console.log();
+        const orphans = await findOrphanedDirectories();
+
+        if (orphans.length === 0) {
+            console.log(chalk.green("No orphaned worktree directories found."));
+            return;
+        }
+
+        console.log(chalk.blue(`Found ${orphans.length} orphaned worktree director${orphans.length === 1 ? "y" : "ies"}:`));
+        for (const orphan of orphans) {
+            console.log(chalk.cyan(`  ${orphan.path}`), chalk.gray(`(${orphan.reason})`));
+        }
+        console.log();
+
+        if (options.dryRun) {
+            console.log(chalk.gray("Dry run: no directories were deleted."));
+            return;
+        }
+
+        console.log(chalk.yellow("Any uncommitted work in these directories will be lost."));
+        const confirmed = options.yes || await confirm("Delete these directories?", false);
+        if (!confirmed) {
+            console.log(chalk.yellow("Skipped deleting orphaned directories."));
+            return;
+        }
+
+        for (const orphan of orphans) {
+            try {
+                await rm(orphan.path, { recursive: true, force: true });
+                console.log(chalk.green(`Deleted ${orphan.path}.`));
+            } catch (error: any) {
+                console.warn(chalk.yellow(`Could not delete ${orphan.path}: ${error.message}`));
+            }
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to prune worktrees:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to prune worktrees:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -1,11 +1,13 @@
 import { execa, ExecaError } from "execa";
 import chalk from "chalk";
 import { stat, rm } from "node:fs/promises";
-import { getWorktrees, WorktreeInfo } from "../utils/git.js";
+import { getWorktrees, getStatusCounts, totalChanges, WorktreeInfo } from "../utils/git.js";
 import { selectWorktree, confirm } from "../utils/tui.js";
 import { withSpinner } from "../utils/spinner.js";
+import { runHookCommands } from "../utils/setup.js";
+import { describePortBlock, releasePorts } from "../utils/ports.js";
 
-export async function purgeWorktreesHandler() {
+export async function purgeWorktreesHandler(options: { trust?: boolean } = {}) {
     try {
         // Ensure we're in a Git repository
         await execa("git", ["rev-parse", "--is-inside-work-tree"]);
@@ -29,13 +31,23 @@ export async function purgeWorktreesHandler() {
         console.log(chalk.blue(`Found ${purgeWorktrees.length} worktree(s) to potentially purge:`));
         console.log();
 
+        // Check every worktree for uncommitted changes in parallel, so the user
+        // knows which removals may lose work before selecting
+        const changeCounts = await Promise.all(
+            purgeWorktrees.map(wt => (wt.prunable ? Promise.resolve(null) : getStatusCounts(wt.path)))
+        );
+
         // Display all worktrees that can be purged
-        for (const wt of purgeWorktrees) {
+        purgeWorktrees.forEach((wt, index) => {
+            const counts = changeCounts[index];
             let status = '';
             if (wt.locked) status += chalk.red(' [locked]');
             if (wt.prunable) status += chalk.yellow(' [prunable]');
+            if (counts && totalChanges(counts) > 0) {
+                status += chalk.magenta(' [uncommitted changes]');
+            }
             console.log(chalk.cyan(`  ${wt.branch || '(detached)'}`), chalk.gray(`→ ${wt.path}`), status);
-        }
+        });
         console.log();
 
         // Use interactive multi-select
@@ -80,6 +92,11 @@ export async function purgeWorktreesHandler() {
                     }
                 }
 
+                // Run teardown hooks while the worktree still exists
+                if (!wt.prunable) {
+                    await runHookCommands("teardown-worktree", wt.path, { trust: options.trust });
+                }
+
                 // Try to remove the worktree
                 await withSpinner(
                     `Removing worktree for branch "${wt.branch || '(detached)'}"...`,
@@ -136,6 +153,11 @@ export async function purgeWorktreesHandler() {
                         console.warn(chalk.yellow(`Could not delete folder: ${statError.message}`));
                     }
                 }
+
+                const released = await releasePorts(wt.path);
+                if (released) {
+                    console.log(chalk.gray(`Released ${describePortBlock(released)}.`));
+                }
             }
         }
 
@@ -5,10 +5,12 @@ import { resolve } from "node:path";
 import { getWorktrees, findWorktreeByBranch, findWorktreeByPath, WorktreeInfo } from "../utils/git.js";
 import { selectWorktree, confirm } from "../utils/tui.js";
 import { withSpinner } from "../utils/spinner.js";
+import { runHookCommands } from "../utils/setup.js";
+import { describePortBlock, releasePorts } from "../utils/ports.js";
 
 export async function removeWorktreeHandler(
     pathOrBranch: string = "",
-    options: { force?: boolean }
+    options: { force?: boolean; trust?: boolean }
 ) {
     try {
         await execa("git", ["rev-parse", "--is-inside-work-tree"]);
@@ -85,6 +87,12 @@ export async function removeWorktreeHandler(
             }
         }
 
+        // Run teardown hooks while the worktree still exists
+        const targetExists = await stat(targetPath).then(() => true, () => false);
+        if (targetExists) {
+            await runHookCommands("teardown-worktree", targetPath, { trust: options.trust });
+        }
+
         // Remove the worktree
         try {
             await withSpinner(
@@ -124,6 +132,11 @@ export async function removeWorktreeHandler(
             // Directory doesn't exist, which is fine
         }
 
+        const released = await releasePorts(targetPath);
+        if (released) {
+            console.log(chalk.gray(`Released ${describePortBlock(released)}.`));
+        }
+
         console.log(chalk.green("Worktree removed successfully!"));
     } catch (error) {
         if (error instanceof Error) {
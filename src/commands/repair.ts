@@ -0,0 +1,70 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { stat } from "node:fs/promises";
+import { getWorktrees } from "../utils/git.js";
+import { findRelocatedWorktrees } from "../utils/prune.js";
+
+export async function repairWorktreesHandler() {
+    try {
+        // Ensure we're in a Git repository
+        try {
+            await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+        } catch {
+            console.error(chalk.red("Not inside a git repository."));
+            console.error(chalk.yellow("If the main repository was moved, run 'wt repair' from the main worktree at its new location."));
+            process.exit(1);
+        }
+
+        // 1. Worktrees moved into the worktree root or next to the main worktree
+        const relocated = await findRelocatedWorktrees();
+        for (const wt of relocated) {
+            console.log(chalk.blue(`Found moved worktree "${wt.name}":`), chalk.gray(`${wt.oldPath} → ${wt.newPath}`));
+        }
+
+        // 2. Pass every worktree directory that still exists, so links are also
+        //    fixed when the main repository itself was moved
+        const worktrees = await getWorktrees();
+        const existing: string[] = [];
+        for (const wt of worktrees) {
+            if (wt.isMain || wt.bare) continue;
+            const exists = await stat(wt.path).then(s => s.isDirectory(), () => false);
+            if (exists) existing.push(wt.path);
+        }
+        const paths = [...existing, ...relocated.map(wt => wt.newPath)];
+
+        // git exits non-zero for some links it repairs, so rely on its report instead
+        const { stdout, stderr } = await execa("git", ["worktree", "repair", ...paths], { reject: false });
+        const lines = `${stdout}\n${stderr}`.split("\n").map(line => line.trim()).filter(Boolean);
+        const repaired = lines.filter(line => line.startsWith("repair:"));
+        const errors = lines.filter(line => line.startsWith("error:") && !line.includes(".git file broken"));
+
+        if (repaired.length === 0 && errors.length === 0) {
+            console.log(chalk.green("All worktree links are intact. Nothing to repair."));
+            return;
+        }
+
+        if (repaired.length > 0) {
+            console.log(chalk.blue("Repaired:"));
+        }
+        for (const line of repaired) {
+            console.log(chalk.green(`  ✓ ${line.replace(/^repair:\s*/, "")}`));
+        }
+        for (const line of errors) {
+            console.error(chalk.red(`  ✗ ${line.replace(/^error:\s*/, "")}`));
+        }
+
+        console.log();
+        if (errors.length > 0) {
+            console.error(chalk.red(`Repaired ${repaired.length} link(s); ${errors.length} could not be repaired.`));
+            process.exit(1);
+        }
+        console.log(chalk.green(`Repaired ${repaired.length} link(s).`));
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to repair worktrees:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to repair worktrees:"), error);
+        }
+        process.exit(1);
+    }
+}
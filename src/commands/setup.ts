@@ -1,9 +1,10 @@
 import { execa } from "execa";
 import chalk from "chalk";
 import { stat } from "node:fs/promises";
-import { resolve, join } from "node:path";
+import { relative, resolve, join } from "node:path";
 import { getDefaultEditor, shouldSkipEditor } from "../config.js";
 import {
+    getRepoRoot,
     isWorktreeClean,
     isMainRepoBare,
     stashChanges,
@@ -12,15 +13,27 @@ import {
 } from "../utils/git.js";
 import { resolveWorktreePath, validateBranchName } from "../utils/paths.js";
 import { AtomicWorktreeOperation } from "../utils/atomic.js";
+import { syncWorktreeFiles } from "../utils/files.js";
+import { installDependencies } from "../utils/install.js";
 import { handleDirtyState } from "../utils/tui.js";
-import { runSetupScriptsSecure } from "../utils/setup.js";
+import {
+    formatSetupFileProblem,
+    lintSetupFile,
+    ensureSetupProfile,
+    parseSetupFailureMode,
+    reserveWorktreePorts,
+    runSetupScriptsSecure,
+    SETUP_FILE_PATHS,
+} from "../utils/setup.js";
+import { buildWorktreePlan, printWorktreePlan } from "../utils/plan.js";
 import { onShutdown } from "../utils/shutdown.js";
 
 export async function setupWorktreeHandler(
     branchName: string = "main",
-    options: { path?: string; checkout?: boolean; install?: string; editor?: string; trust?: boolean } = {}
+    options: { path?: string; checkout?: boolean; install?: string | boolean; editor?: string; trust?: boolean; onSetupFailure?: string; profile?: string; dryRun?: boolean } = {}
 ) {
     let stashHash: string | null = null;
+    let installedWith: string[] = [];
     let unregisterShutdown: (() => void) | null = null;
 
     try {
@@ -34,6 +47,21 @@ export async function setupWorktreeHandler(
             process.exit(1);
         }
 
+        const onFailure = parseSetupFailureMode(options.onSetupFailure);
+        await ensureSetupProfile(options.profile);
+
+        if (options.dryRun) {
+            printWorktreePlan(await buildWorktreePlan({
+                command: `wt setup ${branchName}`,
+                branch: branchName,
+                customPath: options.path,
+                install: options.install,
+                editor: options.editor,
+                setup: { profile: options.profile, onFailure },
+            }));
+            return;
+        }
+
         // 2. Check if this is a bare repository
         const isBare = await isMainRepoBare();
 
@@ -123,10 +151,18 @@ export async function setupWorktreeHandler(
                     await atomic.createWorktree(resolvedPath, branchName, false);
                 }
 
+                // Bring over ignored files (.env, certificates, ...) before setup commands need them
+                await syncWorktreeFiles(atomic, resolvedPath);
+                await reserveWorktreePorts(atomic, resolvedPath, branchName);
+
                 // 7. Execute setup-worktree commands if setup file exists
                 // Improvement #6: Replace regex security with trust model
                 const setupRan = await runSetupScriptsSecure(resolvedPath, {
                     trust: options.trust,
+                    onFailure,
+                    atomic,
+                    context: { branch: branchName },
+                    profile: options.profile,
                 });
 
                 if (!setupRan) {
@@ -135,9 +171,7 @@ export async function setupWorktreeHandler(
                 }
 
                 // 8. Install dependencies if specified
-                if (options.install) {
-                    await atomic.runInstall(options.install, resolvedPath);
-                }
+                installedWith = await installDependencies(atomic, resolvedPath, options.install);
 
                 atomic.commit();
             } catch (error: any) {
@@ -164,8 +198,8 @@ export async function setupWorktreeHandler(
         }
 
         console.log(chalk.green(`Worktree ${directoryExists ? "opened" : "created"} at ${resolvedPath}.`));
-        if (!directoryExists && options.install) {
-            console.log(chalk.green(`Dependencies installed using ${options.install}.`));
+        if (installedWith.length > 0) {
+            console.log(chalk.green(`Dependencies installed using ${installedWith.join(", ")}.`));
         }
 
     } catch (error) {
@@ -191,3 +225,58 @@ export async function setupWorktreeHandler(
         }
     }
 }
+
+export async function setupValidateHandler(file: string | undefined, options: { json?: boolean } = {}) {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        let files: string[];
+        if (file) {
+            files = [resolve(file)];
+        } else {
+            const repoRoot = await getRepoRoot();
+            if (!repoRoot) {
+                throw new Error("Could not determine the repository root.");
+            }
+            const candidates = SETUP_FILE_PATHS.map(relativePath => join(repoRoot, relativePath));
+            const exists = await Promise.all(candidates.map(path => stat(path).then(() => true, () => false)));
+            files = candidates.filter((_, index) => exists[index]);
+        }
+
+        const results = [];
+        for (const filePath of files) {
+            results.push({ file: filePath, problems: await lintSetupFile(filePath) });
+        }
+        const hasErrors = results.some(result => result.problems.some(problem => problem.severity === "error"));
+
+        if (options.json) {
+            console.log(JSON.stringify(results, null, 2));
+        } else if (results.length === 0) {
+            console.log(chalk.yellow(`No setup file found (looked for ${SETUP_FILE_PATHS.join(", ")}).`));
+        } else {
+            for (const { file: filePath, problems } of results) {
+                const shown = relative(process.cwd(), filePath) || filePath;
+                if (problems.length === 0) {
+                    console.log(chalk.green(`✔ ${shown} is valid.`));
+                    continue;
+                }
+                for (const problem of problems) {
+                    const color = problem.severity === "error" ? chalk.red : chalk.yellow;
+                    console.log(`${color(problem.severity)} ${formatSetupFileProblem(shown, problem)}`);
+                }
+            }
+        }
+
+        if (hasErrors) {
+            process.exit(1);
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to validate setup file:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to validate setup file:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -0,0 +1,11 @@
+import chalk from "chalk";
+import { getShellInitScript, isSupportedShell, SUPPORTED_SHELLS } from "../utils/shell.js";
+
+export function shellInitHandler(shell: string) {
+    if (!isSupportedShell(shell)) {
+        console.error(chalk.red(`Unsupported shell "${shell}". Supported shells: ${SUPPORTED_SHELLS.join(", ")}`));
+        process.exit(1);
+    }
+
+    process.stdout.write(getShellInitScript(shell));
+}
@@ -0,0 +1,112 @@
+import { execa } from "execa";
+import chalk from "chalk";
+import { getWorktrees, getDefaultBranch, totalChanges } from "../utils/git.js";
+import { collectWorktreeStatus, formatAge, WorktreeStatus } from "../utils/status.js";
+
+/**
+ * Format ahead/behind counts as arrows (e.g., "↑2 ↓1")
+ */
+function formatDivergence(divergence: { ahead: number; behind: number }): string {
+    if (divergence.ahead === 0 && divergence.behind === 0) {
+        return chalk.green("up to date");
+    }
+    const parts: string[] = [];
+    if (divergence.ahead > 0) parts.push(chalk.green(`↑${divergence.ahead}`));
+    if (divergence.behind > 0) parts.push(chalk.red(`↓${divergence.behind}`));
+    return parts.join(" ");
+}
+
+/**
+ * Print the status block for a single worktree
+ */
+function printWorktreeStatus(status: WorktreeStatus): void {
+    const wt = status.worktree;
+
+    // Header: branch (or detached/bare) and path
+    let title: string;
+    if (wt.branch) {
+        title = chalk.cyan.bold(wt.branch);
+    } else if (wt.detached) {
+        title = chalk.yellow(`(detached at ${wt.head.substring(0, 7)})`);
+    } else {
+        title = chalk.gray("(bare)");
+    }
+    const markers: string[] = [];
+    if (wt.isMain) markers.push(chalk.blue("main"));
+    if (wt.locked) markers.push(chalk.red("locked"));
+    if (wt.prunable) markers.push(chalk.yellow("prunable"));
+    console.log(`${title} ${chalk.gray(wt.path)}${markers.length ? ` ${chalk.gray(`(${markers.join(", ")})`)}` : ""}`);
+
+    if (wt.prunable) {
+        console.log(chalk.yellow(`  Directory is missing${wt.pruneReason ? `: ${wt.pruneReason}` : ""}`));
+        return;
+    }
+    if (wt.bare) {
+        return;
+    }
+
+    // Uncommitted changes
+    const changes = status.changes;
+    if (!changes) {
+        console.log(chalk.red("  Changes:  could not read git status"));
+    } else if (totalChanges(changes) === 0) {
+        console.log(`  Changes:  ${chalk.green("clean")}`);
+    } else {
+        const parts: string[] = [];
+        if (changes.conflicted) parts.push(chalk.red(`${changes.conflicted} conflicted`));
+        if (changes.staged) parts.push(chalk.green(`${changes.staged} staged`));
+        if (changes.unstaged) parts.push(chalk.yellow(`${changes.unstaged} unstaged`));
+        if (changes.untracked) parts.push(chalk.gray(`${changes.untracked} untracked`));
+        console.log(`  Changes:  ${parts.join(", ")}`);
+    }
+
+    // Upstream and default branch divergence
+    if (status.upstream && status.upstreamDivergence) {
+        console.log(`  Upstream: ${status.upstream} ${formatDivergence(status.upstreamDivergence)}`);
+    } else if (wt.branch) {
+        console.log(`  Upstream: ${chalk.gray("none")}`);
+    }
+    if (status.defaultBranch && status.defaultDivergence) {
+        const merged = status.merged ? ` ${chalk.magenta("(merged)")}` : "";
+        console.log(`  Default:  ${status.defaultBranch} ${formatDivergence(status.defaultDivergence)}${merged}`);
+    }
+
+    // Last commit
+    if (status.lastCommit) {
+        const age = formatAge(status.lastCommit.timestamp);
+        console.log(`  Last:     ${status.lastCommit.subject} ${chalk.gray(`(${age})`)}`);
+    }
+}
+
+export async function statusHandler(options: { json?: boolean } = {}) {
+    try {
+        // Confirm we're in a git repo
+        await execa("git", ["rev-parse", "--is-inside-work-tree"]);
+
+        const worktrees = await getWorktrees();
+        const defaultBranch = await getDefaultBranch();
+        const statuses = await Promise.all(worktrees.map(wt => collectWorktreeStatus(wt, defaultBranch)));
+
+        if (options.json) {
+            console.log(JSON.stringify(statuses, null, 2));
+            return;
+        }
+
+        if (statuses.length === 0) {
+            console.log(chalk.yellow("No worktrees found."));
+            return;
+        }
+
+        statuses.forEach((status, index) => {
+            if (index > 0) console.log();
+            printWorktreeStatus(status);
+        });
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Error collecting worktree status:"), error.message);
+        } else {
+            console.error(chalk.red("Error collecting worktree status:"), error);
+        }
+        process.exit(1);
+    }
+}
@@ -0,0 +1,66 @@
+import chalk from "chalk";
+import { getRepoRoot } from "../utils/git.js";
+import { getTrustEntries, revokeTrust } from "../utils/trust.js";
+
+export async function trustListHandler(options: { json?: boolean } = {}) {
+    try {
+        const entries = getTrustEntries();
+
+        if (options.json) {
+            console.log(JSON.stringify(entries.map(({ content, ...entry }) => entry), null, 2));
+            return;
+        }
+
+        if (entries.length === 0) {
+            console.log(chalk.yellow("No approved setup files."));
+            return;
+        }
+
+        console.log(chalk.blue("Approved setup files:\n"));
+        for (const entry of [...entries].sort((a, b) => a.file.localeCompare(b.file))) {
+            const trustedAt = new Date(entry.trustedAt).toLocaleString();
+            console.log(`${entry.file} ${entry.scope ?? chalk.yellow("(needs re-approval)")} ${chalk.gray(`(${entry.hash.slice(0, 12)}, approved ${trustedAt})`)}`);
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to list approved setup files:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to list approved setup files:"), error);
+        }
+        process.exit(1);
+    }
+}
+
+export async function trustRevokeHandler(target: string | undefined, options: { all?: boolean } = {}) {
+    try {
+        if (options.all && target) {
+            throw new Error("Pass either a path or --all, not both.");
+        }
+
+        if (!options.all && !target) {
+            // Default to the current repository's approvals
+            target = (await getRepoRoot()) ?? undefined;
+            if (!target) {
+                throw new Error("Not inside a git repository. Pass a setup file or repository path, or --all.");
+            }
+        }
+
+        const revoked = revokeTrust(options.all ? undefined : target);
+        if (revoked.length === 0) {
+            console.log(chalk.yellow(`No approvals found for ${target ?? "any setup file"}.`));
+            return;
+        }
+
+        for (const entry of revoked) {
+            console.log(chalk.green(`Revoked: ${entry.file}`));
+        }
+        console.log(chalk.gray("Commands from these files will ask for confirmation again."));
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(chalk.red("Failed to revoke approvals:"), error.message);
+        } else {
+            console.error(chalk.red("Failed to revoke approvals:"), error);
+        }
+        process.exit(1);
+    }
+}
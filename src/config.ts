@@ -94,4 +94,8 @@ export function setDefaultWorktreePath(worktreePath: string): void {
 // Function to clear the default worktree path
 export function clearDefaultWorktreePath(): void {
     config.delete('defaultWorktreePath');
-} 
\ No newline at end of file
+} 
+// Function to get the directory holding the config file (other stores live next to it)
+export function getConfigDir(): string {
+    return path.dirname(config.path);
+}
@@ -3,15 +3,28 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import { newWorktreeHandler } from "./commands/new.js";
-import { setupWorktreeHandler } from "./commands/setup.js";
+import { setupValidateHandler, setupWorktreeHandler } from "./commands/setup.js";
 import { listWorktreesHandler } from "./commands/list.js";
+import { statusHandler } from "./commands/status.js";
+import { diskUsageHandler } from "./commands/du.js";
 import { removeWorktreeHandler } from "./commands/remove.js";
 import { mergeWorktreeHandler } from "./commands/merge.js";
 import { purgeWorktreesHandler } from "./commands/purge.js";
+import { pruneWorktreesHandler } from "./commands/prune.js";
+import { doctorHandler } from "./commands/doctor.js";
+import { initHandler } from "./commands/init.js";
+import { repairWorktreesHandler } from "./commands/repair.js";
 import { configHandler } from "./commands/config.js";
 import { prWorktreeHandler } from "./commands/pr.js";
 import { openWorktreeHandler } from "./commands/open.js";
 import { extractWorktreeHandler } from "./commands/extract.js";
+import { pathHandler, cdHandler } from "./commands/path.js";
+import { logsHandler } from "./commands/logs.js";
+import { portsHandler } from "./commands/ports.js";
+import { shellInitHandler } from "./commands/shell.js";
+import { trustListHandler, trustRevokeHandler } from "./commands/trust.js";
+import { completionHandler, completeHandler } from "./commands/completion.js";
+import { COMPLETE_COMMAND } from "./utils/completion.js";
 
 const program = new Command();
 
@@ -30,13 +43,19 @@ program
     false
   )
   .option(
-    "-i, --install <packageManager>",
-    "Package manager to use for installing dependencies (npm, pnpm, bun, etc.)"
+    "-i, --install [packageManager]",
+    "Install dependencies with the given package manager, or detect it from lockfiles when omitted"
   )
   .option(
     "-e, --editor <editor>",
     "Editor to use for opening the worktree (e.g., code, webstorm, windsurf, etc.)"
   )
+  .option("--cd", "Change into the new worktree (requires 'wt shell-init')")
+  .option(
+    "--dry-run",
+    "Print what would be done (path, branch, files, ports, install and setup commands) without changing anything",
+    false
+  )
   .description(
     "Create a new worktree for the specified branch, install dependencies if specified, and open in editor."
   )
@@ -52,8 +71,8 @@ program
     false
   )
   .option(
-    "-i, --install <packageManager>",
-    "Package manager to use for installing dependencies (npm, pnpm, bun, etc.)"
+    "-i, --install [packageManager]",
+    "Install dependencies with the given package manager, or detect it from lockfiles when omitted"
   )
   .option(
     "-e, --editor <editor>",
@@ -64,17 +83,80 @@ program
     "Trust and run setup commands without confirmation (for CI environments)",
     false
   )
+  .option(
+    "--on-setup-failure <mode>",
+    "What to do when a setup command fails: continue, stop (keep the worktree) or rollback (remove it)"
+  )
+  .option(
+    "--profile <name>",
+    "Setup profile from worktrees.json to run after the setup-worktree commands"
+  )
+  .option(
+    "--dry-run",
+    "Print what would be done (path, branch, files, ports, install and setup commands) without changing anything",
+    false
+  )
   .description(
     "Create a new worktree and run setup scripts from worktrees.json or .cursor/worktrees.json"
   )
-  .action(setupWorktreeHandler);
+  .action(setupWorktreeHandler)
+  .addCommand(
+    new Command("validate")
+      .argument("[file]", "Setup file to check (defaults to the repository's setup files)")
+      .option("--json", "Output problems as JSON", false)
+      .description("Check setup files for syntax and schema errors, with line and column.")
+      .action(setupValidateHandler)
+  );
+
+program
+  .command("init")
+  .option("-y, --yes", "Accept the suggested entries without prompting", false)
+  .option("-f, --force", "Replace an existing worktrees.json", false)
+  .description(
+    "Inspect the repository (lockfiles, env files, Docker Compose, .cursor/worktrees.json) and generate a worktrees.json."
+  )
+  .action(initHandler);
 
 program
   .command("list")
   .alias("ls")
+  .option("--json", "Output worktrees as JSON (includes dirty state and upstream)", false)
+  .option(
+    "--format <template>",
+    "Output each worktree using a template, e.g. '{branch}\\t{path}'"
+  )
+  .option("--dirty", "Only show worktrees with uncommitted changes", false)
+  .option("--clean", "Only show worktrees without uncommitted changes", false)
+  .option("--merged", "Only show worktrees whose branch is merged into the default branch", false)
+  .option("--stale <duration>", "Only show worktrees with no commits within the duration (e.g., 2w, 30d)")
+  .option("--locked", "Only show locked worktrees", false)
+  .option("--prunable", "Only show prunable (stale) worktrees", false)
+  .option(
+    "--sort <key>",
+    "Sort by branch, path, age (newest first) or activity (most recent commit first); prefix with '-' to reverse"
+  )
+  .option("--size", "Show the disk usage of each worktree", false)
   .description("List all existing worktrees for this repository.")
   .action(listWorktreesHandler);
 
+program
+  .command("status")
+  .alias("st")
+  .option("--json", "Output the status of every worktree as JSON", false)
+  .description(
+    "Show uncommitted changes, ahead/behind counts, last commit and merge state for every worktree."
+  )
+  .action(statusHandler);
+
+program
+  .command("du")
+  .option("--exclude-main", "Skip the main worktree", false)
+  .option("--json", "Output disk usage as JSON", false)
+  .description(
+    "Show disk usage per worktree (tracked, ignored and untracked files), largest first."
+  )
+  .action(diskUsageHandler);
+
 program
   .command("remove")
   .alias("rm")
@@ -84,6 +166,7 @@ program
     "Force removal of worktree and deletion of the folder",
     false
   )
+  .option("-t, --trust", "Trust and run teardown commands without confirmation", false)
   .description(
     "Remove a specified worktree. Cleans up the .git/worktrees references."
   )
@@ -96,6 +179,7 @@ program
   .option("--auto-commit", "Automatically commit uncommitted changes in the target worktree", false)
   .option("-m, --message <message>", "Commit message to use when auto-committing (requires --auto-commit)")
   .option("--remove", "Remove the worktree after merging (opt-in destructive cleanup)", false)
+  .option("-t, --trust", "Trust and run post-merge/teardown commands without confirmation", false)
   .description(
     "Merge a branch into the current branch. By default, preserves the source worktree after merge."
   )
@@ -103,11 +187,36 @@ program
 
 program
   .command("purge")
+  .option("-t, --trust", "Trust and run teardown commands without confirmation", false)
   .description(
     "Safely remove all worktrees except for the main branch, with confirmation."
   )
   .action(purgeWorktreesHandler);
 
+program
+  .command("prune")
+  .option("-n, --dry-run", "Show what would be pruned or deleted without changing anything", false)
+  .option("-y, --yes", "Skip confirmation prompts", false)
+  .description(
+    "Prune stale worktree metadata and delete leftover worktree directories git no longer knows about."
+  )
+  .action(pruneWorktreesHandler);
+
+program
+  .command("repair")
+  .description(
+    "Re-link worktrees after moving them or the main repository (wraps 'git worktree repair')."
+  )
+  .action(repairWorktreesHandler);
+
+program
+  .command("doctor")
+  .option("--fix", "Apply safe automatic repairs", false)
+  .description(
+    "Check the environment and repository for common problems and suggest fixes."
+  )
+  .action(doctorHandler);
+
 program
   .command("pr")
   .argument(
@@ -119,8 +228,8 @@ program
     "Specify a custom path for the worktree (defaults to repoName-branchName)"
   )
   .option(
-    "-i, --install <packageManager>",
-    "Package manager to use for installing dependencies (npm, pnpm, bun, etc.)"
+    "-i, --install [packageManager]",
+    "Install dependencies with the given package manager, or detect it from lockfiles when omitted"
   )
   .option(
     "-e, --editor <editor>",
@@ -134,6 +243,19 @@ program
     "-t, --trust",
     "Trust and execute setup scripts without confirmation (use with caution)"
   )
+  .option(
+    "--on-setup-failure <mode>",
+    "What to do when a setup command fails: continue, stop (keep the worktree) or rollback (remove it)"
+  )
+  .option(
+    "--profile <name>",
+    "Setup profile from worktrees.json to run after the setup-worktree commands (implies --setup)"
+  )
+  .option(
+    "--dry-run",
+    "Print what would be done (path, branch, files, ports, install and setup commands) without changing anything",
+    false
+  )
   .description(
     "Fetch the branch for a given GitHub PR or GitLab MR number and create a worktree."
   )
@@ -146,16 +268,54 @@ program
     "-e, --editor <editor>",
     "Editor to use for opening the worktree (overrides default editor)"
   )
+  .option("-t, --trust", "Trust and run post-open commands without confirmation", false)
   .description("Open an existing worktree in the editor.")
   .action(openWorktreeHandler);
 
+program
+  .command("path")
+  .argument("[pathOrBranch]", "Path to worktree or branch name")
+  .description("Print the path of a worktree (for use in scripts).")
+  .action(pathHandler);
+
+program
+  .command("logs")
+  .argument("[pathOrBranch]", "Branch or path of the worktree (defaults to the current one)")
+  .option("-f, --follow", "Keep printing output while the run is in progress", false)
+  .description("Show the setup and install output from when a worktree was created.")
+  .action(logsHandler);
+
+program
+  .command("cd")
+  .argument("[pathOrBranch]", "Path to worktree or branch name")
+  .description("Change the current shell into a worktree (requires 'wt shell-init').")
+  .action(cdHandler);
+
+program
+  .command("shell-init")
+  .argument("<shell>", "Shell to generate the wrapper for (bash, zsh, fish)")
+  .description("Print the shell function that lets 'wt cd' and 'wt new --cd' change directory.")
+  .action(shellInitHandler);
+
+program
+  .command("completion")
+  .argument("<shell>", "Shell to generate completions for (bash, zsh, fish)")
+  .description("Print the shell completion script.")
+  .action(completionHandler);
+
+program
+  .command(COMPLETE_COMMAND, { hidden: true })
+  .argument("[words...]", "Words typed so far")
+  .allowUnknownOption()
+  .action((words: string[]) => completeHandler(program, words));
+
 program
   .command("extract")
   .argument("[branchName]", "Name of the branch to extract (defaults to current branch)")
   .option("-p, --path <path>", "Relative path/folder name for the worktree")
   .option(
-    "-i, --install <packageManager>",
-    "Package manager to use for installing dependencies (npm, pnpm, bun, etc.)"
+    "-i, --install [packageManager]",
+    "Install dependencies with the given package manager, or detect it from lockfiles when omitted"
   )
   .option(
     "-e, --editor <editor>",
@@ -234,4 +394,28 @@ program
       .action(() => configHandler("path"))
   );
 
+program
+  .command("ports")
+  .option("--json", "Output port assignments as JSON", false)
+  .description("Show the ports assigned to each worktree.")
+  .action(portsHandler);
+
+program
+  .command("trust")
+  .description("Manage remembered approvals of setup files.")
+  .addCommand(
+    new Command("list")
+      .alias("ls")
+      .option("--json", "Output approvals as JSON", false)
+      .description("List setup files whose commands run without confirmation.")
+      .action(trustListHandler)
+  )
+  .addCommand(
+    new Command("revoke")
+      .argument("[path]", "Setup file or repository to revoke (defaults to the current repository)")
+      .option("-a, --all", "Revoke all approvals", false)
+      .description("Forget approvals so setup commands ask for confirmation again.")
+      .action(trustRevokeHandler)
+  );
+
 program.parse(process.argv);
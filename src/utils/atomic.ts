@@ -2,6 +2,7 @@ import { execa } from "execa";
 import chalk from "chalk";
 import { rm, stat } from "node:fs/promises";
 import { createSpinner } from "./spinner.js";
+import { execLogged, startRunLog } from "./logs.js";
 
 type RollbackAction = () => Promise<void>;
 
@@ -45,6 +46,7 @@ export class AtomicWorktreeOperation {
 
         await execa("git", args);
         this.worktreePath = path;
+        await startRunLog(path, branch);
 
         // Register rollback action
         this.rollbackActions.unshift(async () => {
@@ -77,6 +79,7 @@ export class AtomicWorktreeOperation {
     async createWorktreeFromRemote(path: string, branch: string, remoteBranch: string): Promise<void> {
         await execa("git", ["worktree", "add", "--track", "-b", branch, path, remoteBranch]);
         this.worktreePath = path;
+        await startRunLog(path, branch);
 
         this.rollbackActions.unshift(async () => {
             console.log(chalk.yellow(`Rolling back: Removing worktree at ${path}...`));
@@ -108,11 +111,12 @@ export class AtomicWorktreeOperation {
      *
      * @param packageManager - Package manager command (npm, pnpm, yarn, bun)
      * @param cwd - Working directory for the install
+     * @param args - Arguments for the install (e.g. ["sync"] for uv)
      */
-    async runInstall(packageManager: string, cwd: string): Promise<void> {
+    async runInstall(packageManager: string, cwd: string, args: string[] = ["install"]): Promise<void> {
         const spinner = createSpinner(`Installing dependencies with ${packageManager}...`).start();
         try {
-            await execa(packageManager, ["install"], { cwd, stdio: "inherit" });
+            await execLogged(packageManager, args, { cwd });
             spinner.succeed(`Dependencies installed with ${packageManager}.`);
         } catch (error) {
             spinner.fail(`Failed to install dependencies with ${packageManager}.`);
@@ -133,7 +137,7 @@ export class AtomicWorktreeOperation {
         for (const command of commands) {
             const spinner = createSpinner(`Executing: ${command}`).start();
             try {
-                await execa(command, { shell: true, cwd, env, stdio: "inherit" });
+                await execLogged(command, [], { shell: true, cwd, env });
                 spinner.succeed(`Completed: ${command}`);
             } catch (error) {
                 spinner.fail(`Failed: ${command}`);
@@ -0,0 +1,173 @@
+import type { Command, Option } from "commander";
+import { getWorktrees } from "./git.js";
+import { runGit } from "./query.js";
+import { SUPPORTED_SHELLS, SupportedShell } from "./shell.js";
+
+/**
+ * Shell completion
+ *
+ * The generated scripts are thin: they pass the words typed so far to the
+ * hidden `wt __complete` command, which walks the registered commander
+ * commands and prints one candidate per line. New commands and options are
+ * therefore completed without regenerating the script.
+ */
+
+/**
+ * Name of the hidden command the completion scripts call back into
+ */
+export const COMPLETE_COMMAND = "__complete";
+
+type CompletionSource = () => Promise<string[]>;
+
+/**
+ * Branches that currently have a worktree
+ */
+async function worktreeBranches(): Promise<string[]> {
+    const worktrees = await getWorktrees();
+    return worktrees.map(wt => wt.branch).filter((branch): branch is string => !!branch);
+}
+
+/**
+ * Local and remote branch names, with remote prefixes stripped
+ */
+async function allBranches(): Promise<string[]> {
+    const [local, remote] = await Promise.all([
+        runGit(["for-each-ref", "--format=%(refname:short)", "refs/heads"]),
+        runGit(["for-each-ref", "--format=%(refname:lstrip=3)", "refs/remotes"]),
+    ]);
+    const names = [...local.stdout.split("\n"), ...remote.stdout.split("\n")]
+        .filter(name => name && name !== "HEAD");
+    return [...new Set(names)];
+}
+
+const staticValues = (values: readonly string[]): CompletionSource => async () => [...values];
+
+/**
+ * Completions for the first positional argument, keyed by command path
+ */
+const ARGUMENT_COMPLETIONS: Record<string, CompletionSource> = {
+    "open": worktreeBranches,
+    "remove": worktreeBranches,
+    "merge": worktreeBranches,
+    "extract": worktreeBranches,
+    "path": worktreeBranches,
+    "cd": worktreeBranches,
+    "logs": worktreeBranches,
+    "new": allBranches,
+    "setup": allBranches,
+    "shell-init": staticValues(SUPPORTED_SHELLS),
+    "completion": staticValues(SUPPORTED_SHELLS),
+    "config set provider": staticValues(["gh", "glab"]),
+};
+
+function optionNames(option: Option): string[] {
+    return [option.long, option.short].filter((name): name is string => !!name);
+}
+
+function findOption(cmd: Command, word: string): Option | undefined {
+    return cmd.options.find(option => optionNames(option).includes(word));
+}
+
+function findSubcommand(cmd: Command, word: string): Command | undefined {
+    return cmd.commands.find(sub => sub.name() === word || sub.aliases().includes(word));
+}
+
+/**
+ * Compute completion candidates for a partially typed command line
+ *
+ * @param program - The root commander program
+ * @param words - Words after the program name; the last one is the word being completed (may be empty)
+ * @returns Matching candidates, one per entry
+ */
+export async function getCompletions(program: Command, words: string[]): Promise<string[]> {
+    const current = words.length > 0 ? words[words.length - 1] : "";
+    const preceding = words.slice(0, -1);
+
+    let cmd = program;
+    const path: string[] = [];
+    let positionals = 0;
+
+    for (let i = 0; i < preceding.length; i++) {
+        const word = preceding[i];
+
+        if (word.startsWith("-")) {
+            const option = findOption(cmd, word);
+            if (option && option.required && !word.includes("=")) {
+                // The next word is this option's value
+                if (i === preceding.length - 1) {
+                    return [];
+                }
+                i++;
+            }
+            continue;
+        }
+
+        const sub = positionals === 0 ? findSubcommand(cmd, word) : undefined;
+        if (sub) {
+            cmd = sub;
+            path.push(sub.name());
+        } else {
+            positionals++;
+        }
+    }
+
+    const help = cmd.createHelp();
+    let candidates: string[];
+
+    if (current.startsWith("-")) {
+        candidates = help.visibleOptions(cmd).flatMap(option => option.long ? [option.long] : optionNames(option));
+    } else if (positionals === 0) {
+        // A command can take both subcommands and arguments (e.g. `wt setup validate` and `wt setup <branch>`)
+        const source = ARGUMENT_COMPLETIONS[path.join(" ")];
+        const subcommands = help.visibleCommands(cmd).map(sub => sub.name());
+        candidates = [...new Set([...subcommands, ...(source ? await source() : [])])];
+    } else {
+        candidates = [];
+    }
+
+    return candidates.filter(candidate => candidate.startsWith(current));
+}
+
+const BASH_SCRIPT = `_wt_completion() {
+    local IFS=$'\\n'
+    COMPREPLY=($(command wt ${COMPLETE_COMMAND} -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F _wt_completion wt
+`;
+
+const ZSH_SCRIPT = `#compdef wt
+_wt() {
+    local -a candidates
+    candidates=("\${(@f)$(command wt ${COMPLETE_COMMAND} -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+    candidates=(\${candidates:#})
+    if (( \${#candidates} )); then
+        compadd -a candidates
+    else
+        _files
+    fi
+}
+compdef _wt wt
+`;
+
+const FISH_SCRIPT = `function __wt_complete
+    set -l tokens (commandline -opc) (commandline -ct)
+    command wt ${COMPLETE_COMMAND} -- $tokens[2..-1] 2>/dev/null
+end
+complete -c wt -f -a '(__wt_complete)'
+`;
+
+/**
+ * Get the completion script for a shell
+ *
+ * @param shell - Target shell
+ */
+export function getCompletionScript(shell: SupportedShell): string {
+    switch (shell) {
+        case "bash":
+            return BASH_SCRIPT;
+        case "zsh":
+            return ZSH_SCRIPT;
+        case "fish":
+            return FISH_SCRIPT;
+    }
+}
@@ -0,0 +1,94 @@
+import { lstat, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { Stats } from "node:fs";
+import { runGit, createLimiter } from "./query.js";
+
+/**
+ * Disk usage measurement for worktrees
+ *
+ * Sizes are reported as bytes allocated on disk (st_blocks * 512) where the
+ * platform provides it, falling back to the apparent file size otherwise.
+ * Symlinks are counted but never followed.
+ */
+
+/**
+ * Limits concurrent filesystem calls so walking large node_modules trees
+ * doesn't exhaust file descriptors. Only leaf calls (lstat/readdir) go
+ * through the limiter, never the recursion itself, so it can't deadlock.
+ */
+const fsLimit = createLimiter(64);
+
+/**
+ * Size breakdown of a single worktree
+ */
+export interface WorktreeDiskUsage {
+    /** Bytes used by files tracked by git */
+    tracked: number;
+    /** Bytes used by git-ignored files and directories (node_modules, build output, ...) */
+    ignored: number;
+    /** Bytes used by untracked files that are not ignored */
+    untracked: number;
+    /** Sum of all categories */
+    total: number;
+}
+
+function sizeOnDisk(stats: Stats): number {
+    return typeof stats.blocks === "number" && stats.blocks > 0 ? stats.blocks * 512 : stats.size;
+}
+
+/**
+ * Compute the size of a file or directory tree
+ *
+ * @param path - File or directory to measure
+ * @returns Size in bytes, or 0 if the path does not exist
+ */
+export async function getPathSize(path: string): Promise<number> {
+    let stats: Stats;
+    try {
+        stats = await fsLimit(() => lstat(path));
+    } catch {
+        return 0;
+    }
+
+    if (!stats.isDirectory()) {
+        return sizeOnDisk(stats);
+    }
+
+    let entries: string[];
+    try {
+        entries = await fsLimit(() => readdir(path));
+    } catch {
+        return sizeOnDisk(stats);
+    }
+
+    const sizes = await Promise.all(entries.map(entry => getPathSize(join(path, entry))));
+    return sizes.reduce((sum, size) => sum + size, sizeOnDisk(stats));
+}
+
+/**
+ * Sum the sizes of paths listed by `git ls-files -z` relative to a worktree
+ */
+async function sumListedPaths(worktreePath: string, args: string[]): Promise<number> {
+    const { stdout } = await runGit(["ls-files", "-z", ...args], { cwd: worktreePath });
+    const paths = stdout.split("\0").filter(Boolean);
+    const sizes = await Promise.all(paths.map(relPath => getPathSize(join(worktreePath, relPath))));
+    return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Measure a worktree's disk usage, broken down into tracked, ignored and untracked files
+ *
+ * Ignored directories are listed as a single entry (via --directory), so large
+ * dependency trees are walked once rather than file by file through git.
+ *
+ * @param worktreePath - Path of the worktree to measure
+ */
+export async function measureWorktree(worktreePath: string): Promise<WorktreeDiskUsage> {
+    const [tracked, ignored, untracked] = await Promise.all([
+        sumListedPaths(worktreePath, ["--cached"]),
+        sumListedPaths(worktreePath, ["--others", "--ignored", "--exclude-standard", "--directory"]),
+        sumListedPaths(worktreePath, ["--others", "--exclude-standard"]),
+    ]);
+
+    return { tracked, ignored, untracked, total: tracked + ignored + untracked };
+}
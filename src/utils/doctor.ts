@@ -0,0 +1,303 @@
+import { execa } from "execa";
+import { access, constants, mkdir, readFile, stat } from "node:fs/promises";
+import { basename, delimiter, dirname, join, resolve } from "node:path";
+import { getDefaultEditor, getDefaultWorktreePath, getGitProvider, shouldSkipEditor } from "../config.js";
+import { detectGitProvider, getWorktrees } from "./git.js";
+import { runGit } from "./query.js";
+import { formatSetupFileProblem, SETUP_FILE_PATHS, validateSetupFile } from "./setup.js";
+import { findRelocatedWorktrees } from "./prune.js";
+
+/**
+ * Environment and repository health checks for `wt doctor`
+ *
+ * Each check reports pass/warn/fail with a suggested fix. Checks that have a
+ * safe, non-destructive repair also provide a `repair` function, which
+ * `wt doctor --fix` runs.
+ */
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+/**
+ * Result of a single health check
+ */
+export interface CheckResult {
+    /** Short name of the area being checked */
+    name: string;
+    status: CheckStatus;
+    /** What was found */
+    message: string;
+    /** Suggested command or action to resolve a warning/failure */
+    fix?: string;
+    /** Safe automatic repair, run by `wt doctor --fix`; resolves to a description of what was done */
+    repair?: () => Promise<string>;
+}
+
+/**
+ * Find an executable on PATH
+ *
+ * @param command - Command name or path
+ * @returns Absolute path of the executable, or null if not found
+ */
+export async function findExecutable(command: string): Promise<string | null> {
+    const isExecutable = async (candidate: string) => {
+        try {
+            await access(candidate, process.platform === "win32" ? constants.F_OK : constants.X_OK);
+            return (await stat(candidate)).isFile();
+        } catch {
+            return false;
+        }
+    };
+
+    if (command.includes("/") || command.includes("\\")) {
+        return (await isExecutable(resolve(command))) ? resolve(command) : null;
+    }
+
+    const extensions = process.platform === "win32"
+        ? ["", ...(process.env.PATHEXT || ".EXE;.CMD;.BAT;.COM").split(";")]
+        : [""];
+
+    for (const dir of (process.env.PATH || "").split(delimiter).filter(Boolean)) {
+        for (const ext of extensions) {
+            const candidate = join(dir, command + ext);
+            if (await isExecutable(candidate)) {
+                return candidate;
+            }
+        }
+    }
+    return null;
+}
+
+async function checkGit(): Promise<CheckResult> {
+    try {
+        const { stdout } = await execa("git", ["--version"]);
+        return { name: "Git", status: "pass", message: stdout.trim() };
+    } catch {
+        return { name: "Git", status: "fail", message: "git is not installed or not on PATH", fix: "Install git: https://git-scm.com/downloads" };
+    }
+}
+
+async function checkEditor(): Promise<CheckResult> {
+    const editor = getDefaultEditor();
+    if (shouldSkipEditor(editor)) {
+        return { name: "Editor", status: "pass", message: "Editor opening is disabled (none)" };
+    }
+
+    const found = await findExecutable(editor);
+    return found
+        ? { name: "Editor", status: "pass", message: `"${editor}" found at ${found}` }
+        : {
+            name: "Editor",
+            status: "warn",
+            message: `Configured editor "${editor}" is not on your PATH`,
+            fix: "wt config set editor <command>   (or 'none' to skip opening an editor)",
+        };
+}
+
+async function checkGitProvider(cwd: string): Promise<CheckResult> {
+    const provider = (await detectGitProvider(cwd)) ?? getGitProvider();
+    const name = `Provider (${provider})`;
+    const installUrl = provider === "gh" ? "https://cli.github.com" : "https://gitlab.com/gitlab-org/cli";
+
+    if (!(await findExecutable(provider))) {
+        return { name, status: "warn", message: `${provider} is not installed; 'wt pr' will not work`, fix: `Install it from ${installUrl}` };
+    }
+
+    const { exitCode } = await execa(provider, ["auth", "status"], { reject: false, timeout: 15000 });
+    return exitCode === 0
+        ? { name, status: "pass", message: `${provider} is installed and authenticated` }
+        : { name, status: "warn", message: `${provider} is not authenticated`, fix: `${provider} auth login` };
+}
+
+async function checkCoreBare(cwd: string): Promise<CheckResult> {
+    const { stdout: commonDir } = await runGit(["rev-parse", "--path-format=absolute", "--git-common-dir"], { cwd });
+    const { stdout: bare } = await runGit(["--git-dir", commonDir, "config", "--bool", "core.bare"], { cwd, reject: false });
+
+    // A repository stored in "<dir>/.git" always has a working tree, so core.bare=true is a mistake
+    if (bare.trim() === "true" && basename(commonDir) === ".git") {
+        return {
+            name: "core.bare",
+            status: "fail",
+            message: "Repository has a working tree but core.bare=true; merges and removals will fail",
+            fix: "git config core.bare false",
+            repair: async () => {
+                await runGit(["--git-dir", commonDir, "config", "core.bare", "false"], { cwd });
+                return "Set core.bare=false";
+            },
+        };
+    }
+    return { name: "core.bare", status: "pass", message: bare.trim() === "true" ? "Bare repository" : "core.bare=false" };
+}
+
+async function checkWorktreeLinks(cwd: string): Promise<CheckResult[]> {
+    const worktrees = await getWorktrees(cwd);
+    const results: CheckResult[] = [];
+    const isDirectory = (path: string) => stat(path).then(s => s.isDirectory(), () => false);
+
+    let missing: string[] = [];
+    const broken: string[] = [];
+    for (const wt of worktrees) {
+        if (wt.isMain || wt.bare) continue;
+
+        // git also marks a worktree prunable when only its .git file is gone
+        if (!(await isDirectory(wt.path))) {
+            missing.push(wt.path);
+            continue;
+        }
+
+        let link: string | null = null;
+        try {
+            link = (await readFile(join(wt.path, ".git"), "utf-8")).match(/^gitdir:\s*(.+)$/m)?.[1].trim() ?? null;
+        } catch {
+            // Missing or unreadable .git file
+        }
+
+        if (link === null || !(await isDirectory(resolve(wt.path, link)))) {
+            broken.push(wt.path);
+        }
+    }
+
+    // Moved worktrees are re-linked first so the prune below doesn't unregister them
+    const relocated = missing.length > 0 ? await findRelocatedWorktrees(cwd) : [];
+    if (relocated.length > 0) {
+        const movedFrom = new Set(relocated.map(wt => wt.oldPath));
+        missing = missing.filter(path => !movedFrom.has(path));
+
+        results.push({
+            name: "Moved worktrees",
+            status: "warn",
+            message: relocated.map(wt => `${wt.oldPath} → ${wt.newPath}`).join(", "),
+            fix: "wt repair",
+            repair: async () => {
+                await runGit(["worktree", "repair", ...relocated.map(wt => wt.newPath)], { cwd, reject: false });
+                return `Re-linked ${relocated.length} moved worktree(s)`;
+            },
+        });
+    }
+
+    if (missing.length > 0) {
+        results.push({
+            name: "Worktrees",
+            status: "warn",
+            message: `${missing.length} worktree(s) point to missing directories: ${missing.join(", ")}`,
+            fix: "wt prune",
+            repair: async () => {
+                await runGit(["worktree", "prune"], { cwd });
+                return "Pruned stale worktree metadata";
+            },
+        });
+    }
+
+    if (broken.length > 0) {
+        results.push({
+            name: "Worktree links",
+            status: "fail",
+            message: `Corrupt or missing .git file in: ${broken.join(", ")}`,
+            fix: `git worktree repair ${broken.map(path => `"${path}"`).join(" ")}`,
+            repair: async () => {
+                // git exits non-zero while reporting the broken links it just fixed,
+                // so the re-run of the checks decides whether the repair worked
+                await runGit(["worktree", "repair", ...broken], { cwd, reject: false });
+                return `Repaired .git links for ${broken.length} worktree(s)`;
+            },
+        });
+    } else {
+        results.push({ name: "Worktree links", status: "pass", message: `${worktrees.length} worktree(s) OK` });
+    }
+
+    return results;
+}
+
+async function checkSetupFiles(cwd: string): Promise<CheckResult> {
+    // Queried directly rather than via getRepoRoot(), which fails noisily when
+    // core.bare is misconfigured; fall back to the directory holding ".git"
+    const toplevel = await runGit(["rev-parse", "--show-toplevel"], { cwd, reject: false });
+    const commonDir = await runGit(["rev-parse", "--path-format=absolute", "--git-common-dir"], { cwd, reject: false });
+    const repoRoot = toplevel.exitCode === 0
+        ? toplevel.stdout.trim()
+        : basename(commonDir.stdout.trim()) === ".git" ? dirname(commonDir.stdout.trim()) : null;
+
+    if (!repoRoot) {
+        return { name: "Setup file", status: "warn", message: "Could not determine repository root" };
+    }
+
+    const found: string[] = [];
+    for (const relativePath of SETUP_FILE_PATHS) {
+        const filePath = join(repoRoot, relativePath);
+        try {
+            await stat(filePath);
+        } catch {
+            continue;
+        }
+
+        const problem = await validateSetupFile(filePath);
+        if (problem) {
+            return { name: "Setup file", status: "fail", message: formatSetupFileProblem(relativePath, problem), fix: `Fix or remove ${filePath} (details: wt setup validate)` };
+        }
+        found.push(relativePath);
+    }
+
+    return found.length > 0
+        ? { name: "Setup file", status: "pass", message: `${found.join(", ")} valid` }
+        : { name: "Setup file", status: "pass", message: "No setup file (optional)" };
+}
+
+async function checkWorktreeRoot(): Promise<CheckResult> {
+    const worktreeRoot = getDefaultWorktreePath();
+    if (!worktreeRoot) {
+        return { name: "Worktree path", status: "pass", message: "Not configured; worktrees are created next to the repository" };
+    }
+
+    let isDir: boolean;
+    try {
+        isDir = (await stat(worktreeRoot)).isDirectory();
+    } catch {
+        return {
+            name: "Worktree path",
+            status: "warn",
+            message: `${worktreeRoot} does not exist`,
+            fix: `mkdir -p "${worktreeRoot}"   (or: wt config clear worktreepath)`,
+            repair: async () => {
+                await mkdir(worktreeRoot, { recursive: true });
+                return `Created ${worktreeRoot}`;
+            },
+        };
+    }
+
+    if (!isDir) {
+        return { name: "Worktree path", status: "fail", message: `${worktreeRoot} is not a directory`, fix: "wt config set worktreepath <dir>" };
+    }
+
+    try {
+        await access(worktreeRoot, constants.W_OK);
+    } catch {
+        return { name: "Worktree path", status: "fail", message: `${worktreeRoot} is not writable`, fix: "wt config set worktreepath <dir>" };
+    }
+    return { name: "Worktree path", status: "pass", message: `${worktreeRoot} is writable` };
+}
+
+/**
+ * Run all health checks
+ *
+ * Repository checks are skipped when `cwd` is not inside a git repository.
+ *
+ * @param cwd - Directory to run repository checks in
+ */
+export async function runDoctorChecks(cwd: string = "."): Promise<CheckResult[]> {
+    const environment = await Promise.all([checkGit(), checkEditor(), checkWorktreeRoot()]);
+
+    const { exitCode } = await runGit(["rev-parse", "--git-dir"], { cwd, reject: false });
+    if (exitCode !== 0) {
+        return [
+            ...environment,
+            { name: "Repository", status: "warn", message: "Not inside a git repository; repository checks skipped" },
+        ];
+    }
+
+    const [provider, bare, links, setup] = await Promise.all([
+        checkGitProvider(cwd),
+        checkCoreBare(cwd),
+        checkWorktreeLinks(cwd),
+        checkSetupFiles(cwd),
+    ]);
+    return [...environment, provider, bare, ...links, setup];
+}
@@ -0,0 +1,244 @@
+import chalk from "chalk";
+import { cp, lstat, mkdir, readdir, rm, symlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { AtomicWorktreeOperation } from "./atomic.js";
+import { getRepoRoot, getWorktrees } from "./git.js";
+import { loadWorktreeFilesConfig, WorktreeFilesConfig } from "./setup.js";
+
+/**
+ * Copy or symlink git-ignored files (.env, local certificates, ...) from the
+ * main worktree into a new worktree, as configured by the `copy` and
+ * `symlink` keys in worktrees.json.
+ *
+ * Patterns are matched segment by segment against paths relative to the main
+ * worktree:
+ * - `*` matches any characters within a segment (including a leading dot)
+ * - `?` matches a single character, `[abc]` a character class
+ * - `**` matches any number of directories
+ *
+ * `.git` is never matched, and `**` does not descend into `node_modules`.
+ */
+
+/**
+ * Convert a single glob path segment into a regular expression
+ */
+export function globSegmentToRegExp(segment: string): RegExp {
+    let source = "";
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "[") {
+            const end = segment.indexOf("]", i + 1);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                const body = segment.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+                source += `[${body}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+async function listEntries(dir: string): Promise<Array<{ name: string; isDirectory: boolean }>> {
+    try {
+        const entries = await readdir(dir, { withFileTypes: true });
+        return entries
+            .filter(entry => entry.name !== ".git")
+            .map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Expand a glob pattern against a directory
+ *
+ * @param root - Directory the pattern is relative to
+ * @param pattern - Glob pattern, e.g. ".env*" or "config/**\/*.local.json"
+ * @returns Matching paths relative to `root`, sorted
+ */
+export async function expandGlob(root: string, pattern: string): Promise<string[]> {
+    const segments = pattern.split(/[\\/]+/).filter(segment => segment && segment !== ".");
+    const matches = new Set<string>();
+
+    const walk = async (relativeDir: string, index: number): Promise<void> => {
+        if (index === segments.length) {
+            if (relativeDir) matches.add(relativeDir);
+            return;
+        }
+
+        const segment = segments[index];
+        const absoluteDir = join(root, relativeDir);
+
+        if (segment === "**") {
+            // Zero directories...
+            await walk(relativeDir, index + 1);
+            // ...or one more, keeping "**" active
+            for (const entry of await listEntries(absoluteDir)) {
+                if (entry.isDirectory && !SKIPPED_DIRECTORIES.has(entry.name)) {
+                    await walk(join(relativeDir, entry.name), index);
+                }
+            }
+            return;
+        }
+
+        // Literal segments don't need a directory listing
+        if (!/[*?[]/.test(segment)) {
+            const exists = await lstat(join(absoluteDir, segment)).then(() => true, () => false);
+            if (exists && segment !== ".git") {
+                await walk(join(relativeDir, segment), index + 1);
+            }
+            return;
+        }
+
+        const regex = globSegmentToRegExp(segment);
+        for (const entry of await listEntries(absoluteDir)) {
+            if (regex.test(entry.name) && (index === segments.length - 1 || entry.isDirectory)) {
+                await walk(join(relativeDir, entry.name), index + 1);
+            }
+        }
+    };
+
+    await walk("", 0);
+    return [...matches].sort();
+}
+
+/**
+ * Outcome of bringing files over into a worktree
+ */
+export interface WorktreeFilesResult {
+    /** Paths copied, relative to the worktree */
+    copied: string[];
+    /** Paths symlinked, relative to the worktree */
+    linked: string[];
+    /** Paths left alone because they already exist in the worktree */
+    skipped: string[];
+}
+
+/**
+ * Copy and symlink matching files from one worktree into another
+ *
+ * Existing files in the target are never overwritten. If a path matches both
+ * lists, it is copied.
+ *
+ * @param sourceRoot - Main worktree to take files from
+ * @param targetRoot - Worktree to place files into
+ * @param config - Patterns to copy and symlink
+ * @param created - Receives the absolute path of everything created, for rollback
+ */
+export async function applyWorktreeFiles(
+    sourceRoot: string,
+    targetRoot: string,
+    config: Pick<WorktreeFilesConfig, "copy" | "symlink">,
+    created: string[] = []
+): Promise<WorktreeFilesResult> {
+    const result: WorktreeFilesResult = { copied: [], linked: [], skipped: [] };
+    const seen = new Set<string>();
+
+    const expand = async (patterns: string[]) => {
+        const paths = new Set<string>();
+        for (const pattern of patterns) {
+            for (const path of await expandGlob(sourceRoot, pattern)) {
+                paths.add(path);
+            }
+        }
+        const fresh = [...paths].filter(path => !seen.has(path));
+        fresh.forEach(path => seen.add(path));
+        return fresh;
+    };
+
+    const place = async (relativePath: string, mode: "copy" | "symlink") => {
+        const source = join(sourceRoot, relativePath);
+        const target = join(targetRoot, relativePath);
+
+        if (await lstat(target).then(() => true, () => false)) {
+            result.skipped.push(relativePath);
+            return;
+        }
+
+        await mkdir(dirname(target), { recursive: true });
+        if (mode === "copy") {
+            await cp(source, target, { recursive: true, errorOnExist: true, force: false, verbatimSymlinks: true });
+            result.copied.push(relativePath);
+        } else {
+            const isDirectory = (await lstat(source)).isDirectory();
+            await symlink(source, target, isDirectory ? "junction" : "file");
+            result.linked.push(relativePath);
+        }
+        created.push(target);
+    };
+
+    for (const path of await expand(config.copy)) {
+        await place(path, "copy");
+    }
+    for (const path of await expand(config.symlink)) {
+        await place(path, "symlink");
+    }
+
+    return result;
+}
+
+/**
+ * Apply the worktrees.json `copy` / `symlink` configuration to a newly created worktree
+ *
+ * Runs as a step of an atomic worktree operation: if a later step fails,
+ * everything that was copied or linked is removed again. Prints a report of
+ * what was brought over.
+ *
+ * @param atomic - The operation the worktree was created with
+ * @param worktreePath - The new worktree
+ */
+export async function syncWorktreeFiles(atomic: AtomicWorktreeOperation, worktreePath: string): Promise<void> {
+    const repoRoot = await getRepoRoot();
+    if (!repoRoot) {
+        return;
+    }
+
+    const config = await loadWorktreeFilesConfig(repoRoot);
+    if (!config) {
+        return;
+    }
+
+    // Patterns are relative to the main worktree, even when run from a linked one
+    const main = (await getWorktrees()).find(wt => wt.isMain && !wt.bare);
+    const sourceRoot = main?.path ?? repoRoot;
+
+    const created: string[] = [];
+    let result: WorktreeFilesResult = { copied: [], linked: [], skipped: [] };
+
+    await atomic.execute(
+        async () => {
+            try {
+                result = await applyWorktreeFiles(sourceRoot, worktreePath, config, created);
+            } catch (error) {
+                // Undo partial work before the error propagates to the caller's rollback
+                await Promise.all(created.map(path => rm(path, { recursive: true, force: true })));
+                throw error;
+            }
+        },
+        async () => {
+            console.log(chalk.yellow(`Rolling back: Removing ${created.length} copied/linked file(s)...`));
+            await Promise.all(created.map(path => rm(path, { recursive: true, force: true })));
+        }
+    );
+
+    const { copied, linked, skipped } = result;
+    if (copied.length + linked.length + skipped.length === 0) {
+        console.log(chalk.gray(`No files matched the copy/symlink patterns in ${config.filePath}.`));
+        return;
+    }
+
+    console.log(chalk.blue(`Files from ${sourceRoot}:`));
+    copied.forEach(path => console.log(chalk.green(`  copied   ${path}`)));
+    linked.forEach(path => console.log(chalk.green(`  linked   ${path}`)));
+    skipped.forEach(path => console.log(chalk.gray(`  skipped  ${path} (already exists)`)));
+}
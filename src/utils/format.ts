@@ -0,0 +1,75 @@
+/**
+ * Template formatting for machine-readable command output
+ *
+ * Templates use `{field}` placeholders, similar to `git for-each-ref --format`.
+ * The escape sequences `\t`, `\n` and `\\` are expanded so templates can be
+ * passed from a shell without needing `$'...'` quoting.
+ *
+ * @example
+ * renderTemplate('{branch}\\t{path}', { branch: 'main', path: '/repo' });
+ * // => "main\t/repo"
+ */
+
+const ESCAPES: Record<string, string> = {
+    t: '\t',
+    n: '\n',
+    '\\': '\\',
+};
+
+/**
+ * Expand backslash escape sequences in a template string
+ *
+ * Unknown escapes are left untouched.
+ */
+function expandEscapes(template: string): string {
+    return template.replace(/\\([tn\\])/g, (_, char: string) => ESCAPES[char]);
+}
+
+/**
+ * Convert a field value to its template representation
+ *
+ * `null`/`undefined` render as an empty string, everything else via String().
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return String(value);
+}
+
+/**
+ * Render a `{field}` template against a record
+ *
+ * @param template - Template string, e.g. "{branch}\t{path}"
+ * @param record - Values available to the template
+ * @returns The rendered string
+ * @throws Error if the template references a field that does not exist on the record
+ */
+export function renderTemplate(template: string, record: object): string {
+    const values = record as Record<string, unknown>;
+
+    return expandEscapes(template).replace(/\{([A-Za-z0-9_]+)\}/g, (_, field: string) => {
+        if (!(field in values)) {
+            const available = Object.keys(values).join(', ');
+            throw new Error(`Unknown format field "{${field}}". Available fields: ${available}`);
+        }
+        return formatValue(values[field]);
+    });
+}
+
+/**
+ * Format a byte count for display using binary units (e.g., "1.5 GiB")
+ *
+ * @param bytes - Number of bytes
+ * @returns Human readable size
+ */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -1,9 +1,10 @@
 import { execa } from "execa";
 import chalk from "chalk";
+import { runGit, memoizeByCwd } from "./query.js";
 
 export async function getCurrentBranch(cwd: string = "."): Promise<string | null> {
     try {
-        const { stdout } = await execa("git", ["-C", cwd, "rev-parse", "--abbrev-ref", "HEAD"]);
+        const { stdout } = await runGit(["rev-parse", "--abbrev-ref", "HEAD"], { cwd });
         return stdout.trim();
     } catch (error) {
         // Handle case where HEAD is detached or not in a git repo
@@ -17,7 +18,7 @@ export async function isWorktreeClean(worktreePath: string = "."): Promise<boole
         // Use --porcelain to get easily parsable output.
         // An empty output means clean (for tracked files).
         // We check the specific worktree path provided, defaulting to current dir.
-        const { stdout } = await execa("git", ["-C", worktreePath, "status", "--porcelain"]);
+        const { stdout } = await runGit(["status", "--porcelain"], { cwd: worktreePath });
 
         // If stdout is empty, the worktree is clean regarding tracked/staged files.
         // You might also consider ignoring untracked files depending on strictness,
@@ -39,6 +40,149 @@ export async function isWorktreeClean(worktreePath: string = "."): Promise<boole
     }
 }
 
+/**
+ * Get the upstream tracking branch of the branch checked out in a worktree.
+ *
+ * @param cwd - Path of the worktree to query (defaults to current directory)
+ * @returns The short upstream name (e.g., "origin/feature-x"), or `null` if none is configured
+ */
+export async function getUpstreamBranch(cwd: string = "."): Promise<string | null> {
+    const { stdout, exitCode } = await runGit(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"], { cwd, reject: false });
+    if (exitCode !== 0 || !stdout.trim()) {
+        return null;
+    }
+    return stdout.trim();
+}
+
+/**
+ * Counts of uncommitted changes in a worktree, by category
+ */
+export interface StatusCounts {
+    /** Files with changes staged in the index */
+    staged: number;
+    /** Tracked files with changes not yet staged */
+    unstaged: number;
+    /** Files not tracked by git (ignored files excluded) */
+    untracked: number;
+    /** Files with unresolved merge conflicts */
+    conflicted: number;
+}
+
+/**
+ * Count uncommitted changes in a worktree.
+ *
+ * Uses the same `git status --porcelain` query as isWorktreeClean(), but reports
+ * counts per category instead of a single boolean.
+ *
+ * @param worktreePath - Path of the worktree to inspect (defaults to current directory)
+ * @returns Change counts, or `null` if the status could not be read
+ */
+export async function getStatusCounts(worktreePath: string = "."): Promise<StatusCounts | null> {
+    const { stdout, exitCode } = await runGit(["status", "--porcelain"], { cwd: worktreePath, reject: false });
+    if (exitCode !== 0) {
+        return null;
+    }
+
+    const counts: StatusCounts = { staged: 0, unstaged: 0, untracked: 0, conflicted: 0 };
+    for (const line of stdout.split('\n')) {
+        if (line.length < 2) continue;
+        const x = line[0];
+        const y = line[1];
+
+        if (x === '?' && y === '?') {
+            counts.untracked++;
+        } else if (x === 'U' || y === 'U' || (x === 'A' && y === 'A') || (x === 'D' && y === 'D')) {
+            counts.conflicted++;
+        } else {
+            if (x !== ' ') counts.staged++;
+            if (y !== ' ') counts.unstaged++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * Total number of changed files across all categories of a StatusCounts result
+ */
+export function totalChanges(counts: StatusCounts): number {
+    return counts.staged + counts.unstaged + counts.untracked + counts.conflicted;
+}
+
+/**
+ * Count commits that are only on one side of two refs.
+ *
+ * @param base - The ref to compare against (e.g., "origin/main")
+ * @param head - The ref being compared (defaults to HEAD)
+ * @param cwd - Working directory used to locate the Git repository
+ * @returns `ahead` (commits only in head) and `behind` (commits only in base), or `null` if either ref is missing
+ */
+export async function getAheadBehind(
+    base: string,
+    head: string = "HEAD",
+    cwd: string = "."
+): Promise<{ ahead: number; behind: number } | null> {
+    const { stdout, exitCode } = await runGit(["rev-list", "--left-right", "--count", `${base}...${head}`], { cwd, reject: false });
+    if (exitCode !== 0) {
+        return null;
+    }
+    const [behind, ahead] = stdout.trim().split(/\s+/).map(Number);
+    return { ahead: ahead || 0, behind: behind || 0 };
+}
+
+/**
+ * Read the most recent commit of a worktree.
+ *
+ * @param cwd - Path of the worktree to inspect (defaults to current directory)
+ * @returns Hash, subject and commit time (Unix seconds), or `null` if there are no commits
+ */
+export async function getLastCommit(cwd: string = "."): Promise<{ hash: string; subject: string; timestamp: number } | null> {
+    const { stdout, exitCode } = await runGit(["log", "-1", "--format=%H%x00%s%x00%ct"], { cwd, reject: false });
+    if (exitCode !== 0 || !stdout.trim()) {
+        return null;
+    }
+    const [hash, subject, timestamp] = stdout.trim().split('\0');
+    return { hash, subject, timestamp: Number(timestamp) };
+}
+
+/**
+ * Check whether a commit is already contained in another ref.
+ *
+ * @param commit - The branch or commit to test
+ * @param into - The ref it may have been merged into
+ * @param cwd - Working directory used to locate the Git repository
+ * @returns `true` if `commit` is an ancestor of (or equal to) `into`
+ */
+export async function isMergedInto(commit: string, into: string, cwd: string = "."): Promise<boolean> {
+    const { exitCode } = await runGit(["merge-base", "--is-ancestor", commit, into], { cwd, reject: false });
+    return exitCode === 0;
+}
+
+/**
+ * Check whether a branch has commits of its own since it was created.
+ *
+ * The oldest reflog entry of the branch records the commit it started from. Without a
+ * reflog (e.g., `core.logAllRefUpdates` is off in bare repositories), a branch still
+ * pointing at the tip of `base` is treated as having nothing of its own.
+ *
+ * @param branch - Short name of the branch to check
+ * @param base - Ref the branch is compared against when no reflog is available
+ * @param cwd - Working directory used to locate the Git repository
+ */
+export async function hasOwnCommits(branch: string, base: string, cwd: string = "."): Promise<boolean> {
+    const ref = `refs/heads/${branch}`;
+    const { stdout, exitCode } = await runGit(["reflog", "show", "--format=%H", ref, "--"], { cwd, reject: false });
+    const start = exitCode === 0 ? stdout.trim().split("\n").pop() : undefined;
+
+    if (!start) {
+        const { stdout: tips, exitCode: revParseExit } = await runGit(["rev-parse", ref, base], { cwd, reject: false });
+        const [tip, baseTip] = tips.trim().split("\n");
+        return revParseExit !== 0 || tip !== baseTip;
+    }
+
+    const { stdout: count, exitCode: countExit } = await runGit(["rev-list", "--count", `${start}..${ref}`], { cwd, reject: false });
+    return countExit !== 0 || Number(count.trim()) > 0;
+}
+
 /**
  * Determine whether the main (non-worktree) Git repository is configured as a bare repository.
  *
@@ -83,17 +227,20 @@ export async function isMainRepoBare(cwd: string = '.'): Promise<boolean> {
  * 2. Falling back to common remote names ('origin', 'upstream')
  * 3. Using the first available remote if no common names are found
  *
+ * The result is memoized per repository for the lifetime of the process, since
+ * several helpers (path resolution, provider detection) ask for it in a single command.
+ *
  * @param cwd - Working directory used to locate the Git repository (defaults to current directory)
  * @returns The remote name (e.g., 'origin', 'upstream'), or 'origin' as a fallback
  */
-export async function getUpstreamRemote(cwd: string = "."): Promise<string> {
+export const getUpstreamRemote = memoizeByCwd("upstreamRemote", resolveUpstreamRemote);
+
+async function resolveUpstreamRemote(cwd: string): Promise<string> {
     try {
         // Strategy 1: Try to get the remote from the main branch's tracking information
         // This handles cases where main is tracking upstream/main instead of origin/main
         try {
-            const { stdout: mainBranch } = await execa("git", ["-C", cwd, "rev-parse", "--abbrev-ref", "main@{upstream}"], {
-                reject: false,
-            });
+            const { stdout: mainBranch } = await runGit(["rev-parse", "--abbrev-ref", "main@{upstream}"], { cwd, reject: false });
 
             if (mainBranch && mainBranch.trim()) {
                 // Extract remote name from refs/remotes/upstream/main -> upstream
@@ -105,9 +252,7 @@ export async function getUpstreamRemote(cwd: string = "."): Promise<string> {
         } catch {
             // main branch doesn't have upstream tracking, try master
             try {
-                const { stdout: masterBranch } = await execa("git", ["-C", cwd, "rev-parse", "--abbrev-ref", "master@{upstream}"], {
-                    reject: false,
-                });
+                const { stdout: masterBranch } = await runGit(["rev-parse", "--abbrev-ref", "master@{upstream}"], { cwd, reject: false });
 
                 if (masterBranch && masterBranch.trim()) {
                     const match = masterBranch.trim().match(/^([^\/]+)\//);
@@ -121,7 +266,7 @@ export async function getUpstreamRemote(cwd: string = "."): Promise<string> {
         }
 
         // Strategy 2: Get all remotes and check for common names
-        const { stdout: remotesOutput } = await execa("git", ["-C", cwd, "remote"]);
+        const { stdout: remotesOutput } = await runGit(["remote"], { cwd });
         const remotes = remotesOutput.split('\n').map(r => r.trim()).filter(r => r);
 
         if (remotes.length === 0) {
@@ -145,6 +290,45 @@ export async function getUpstreamRemote(cwd: string = "."): Promise<string> {
     }
 }
 
+/**
+ * Determine the repository's default branch.
+ *
+ * Resolution order:
+ * 1. The remote's HEAD (e.g., refs/remotes/origin/HEAD -> origin/main)
+ * 2. A local `main` or `master` branch
+ *
+ * The returned ref prefers the local branch when it exists, so it can be passed
+ * directly to commands like `git rev-list`.
+ *
+ * @param cwd - Working directory used to locate the Git repository (defaults to current directory)
+ * @returns A ref for the default branch (e.g., "main" or "origin/main"), or `null` if undeterminable
+ */
+export const getDefaultBranch = memoizeByCwd("defaultBranch", resolveDefaultBranch);
+
+async function resolveDefaultBranch(cwd: string): Promise<string | null> {
+    const refExists = async (ref: string): Promise<boolean> => {
+        const { exitCode } = await runGit(["rev-parse", "--verify", "--quiet", ref], { cwd, reject: false });
+        return exitCode === 0;
+    };
+
+    const remote = await getUpstreamRemote(cwd);
+    const { stdout: remoteHead, exitCode } = await runGit(["symbolic-ref", "--short", `refs/remotes/${remote}/HEAD`], { cwd, reject: false });
+
+    if (exitCode === 0 && remoteHead.trim()) {
+        const remoteRef = remoteHead.trim();
+        const branch = remoteRef.slice(remote.length + 1);
+        return (await refExists(`refs/heads/${branch}`)) ? branch : remoteRef;
+    }
+
+    for (const candidate of ['main', 'master']) {
+        if (await refExists(`refs/heads/${candidate}`)) {
+            return candidate;
+        }
+    }
+
+    return null;
+}
+
 /**
  * Determine the top-level directory of the Git repository containing the given working directory.
  *
@@ -153,7 +337,7 @@ export async function getUpstreamRemote(cwd: string = "."): Promise<string> {
  */
 export async function getRepoRoot(cwd: string = "."): Promise<string | null> {
     try {
-        const { stdout } = await execa("git", ["-C", cwd, "rev-parse", "--show-toplevel"]);
+        const { stdout } = await runGit(["rev-parse", "--show-toplevel"], { cwd });
         return stdout.trim();
     } catch (error) {
         console.error(chalk.yellow("Could not determine repository root."), error);
@@ -209,7 +393,7 @@ function getRemoteHostname(remoteUrl: string): string | null {
 export async function detectGitProvider(cwd: string = "."): Promise<'gh' | 'glab' | null> {
     try {
         const remote = await getUpstreamRemote(cwd);
-        const { stdout } = await execa("git", ["-C", cwd, "remote", "get-url", remote]);
+        const { stdout } = await runGit(["remote", "get-url", remote], { cwd });
         const remoteUrl = stdout.trim();
         const hostname = getRemoteHostname(remoteUrl);
 
@@ -274,7 +458,7 @@ export interface WorktreeInfo {
  */
 export async function getWorktrees(cwd: string = "."): Promise<WorktreeInfo[]> {
     try {
-        const { stdout } = await execa("git", ["-C", cwd, "worktree", "list", "--porcelain"]);
+        const { stdout } = await runGit(["worktree", "list", "--porcelain"], { cwd });
 
         if (!stdout.trim()) {
             return [];
@@ -387,17 +571,46 @@ export async function findWorktreeByPath(targetPath: string, cwd: string = "."):
     return null;
 }
 
+/**
+ * Find a worktree by path or branch name
+ *
+ * Existing directories are matched against worktree paths first; anything
+ * else is treated as a branch name.
+ *
+ * @param pathOrBranch - Worktree path or branch name
+ * @param cwd - Working directory to run git command from
+ * @returns WorktreeInfo if found, null otherwise
+ */
+export async function findWorktree(pathOrBranch: string, cwd: string = "."): Promise<WorktreeInfo | null> {
+    const { stat } = await import('node:fs/promises');
+
+    try {
+        if ((await stat(pathOrBranch)).isDirectory()) {
+            const byPath = await findWorktreeByPath(pathOrBranch, cwd);
+            if (byPath) {
+                return byPath;
+            }
+        }
+    } catch {
+        // Not a path, fall through to branch lookup
+    }
+
+    return findWorktreeByBranch(pathOrBranch, cwd);
+}
+
 /**
  * Get the repository name from the remote URL or directory name
  *
  * @param cwd - Working directory to run git command from
  * @returns Repository name (e.g., "my-project")
  */
-export async function getRepoName(cwd: string = "."): Promise<string> {
+export const getRepoName = memoizeByCwd("repoName", resolveRepoName);
+
+async function resolveRepoName(cwd: string): Promise<string> {
     try {
         // Try to get from remote URL first
         const remote = await getUpstreamRemote(cwd);
-        const { stdout } = await execa("git", ["-C", cwd, "remote", "get-url", remote]);
+        const { stdout } = await runGit(["remote", "get-url", remote], { cwd });
         const remoteUrl = stdout.trim();
 
         // Extract repo name from URL
@@ -0,0 +1,131 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { detectInstallSteps } from "./install.js";
+import { parseSetupFileText } from "./setup-file.js";
+import { WorktreeSetupData } from "./setup.js";
+import { SetupStep } from "./steps.js";
+
+/**
+ * Suggestions for a new worktrees.json (`wt init`)
+ *
+ * The repository is inspected for lockfiles, env files and templates, Docker
+ * Compose files and an existing `.cursor/worktrees.json`, and each finding
+ * becomes a suggested entry that the user can keep or drop.
+ */
+
+/**
+ * Schema referenced by generated files, for completion and inline errors in editors
+ */
+const SCHEMA_URL = "https://unpkg.com/@johnlindquist/worktree/worktrees.schema.json";
+
+/**
+ * Docker Compose files, in the order `docker compose` looks for them
+ */
+const COMPOSE_FILES = ["compose.yaml", "compose.yml", "docker-compose.yaml", "docker-compose.yml"];
+
+/**
+ * Env file templates that are committed in place of the real file
+ */
+const ENV_TEMPLATES = [".env.example", ".env.sample", ".env.template"];
+
+/**
+ * An entry that could go into the generated setup file
+ */
+export interface InitSuggestion {
+    /** Setup file key the entry belongs to */
+    key: "setup-worktree" | "teardown-worktree" | "copy";
+    /** Step, or file pattern for `copy` */
+    value: SetupStep;
+    /** What the entry was derived from, e.g. "pnpm-lock.yaml" */
+    reason: string;
+    /** Whether the entry is included unless the user drops it */
+    selected: boolean;
+}
+
+/**
+ * Read the commands of an existing `.cursor/worktrees.json`
+ *
+ * @returns The setup and teardown steps, or null if there is no readable file
+ */
+async function readCursorSetup(repoRoot: string): Promise<{ setup: SetupStep[]; teardown: SetupStep[] } | null> {
+    const filePath = join(repoRoot, ".cursor", "worktrees.json");
+    let data: unknown;
+    try {
+        data = parseSetupFileText(filePath, await readFile(filePath, "utf-8")).data;
+    } catch {
+        return null;
+    }
+
+    if (Array.isArray(data)) {
+        return { setup: data, teardown: [] };
+    }
+    if (!data || typeof data !== "object") {
+        return null;
+    }
+    const setup = data as WorktreeSetupData;
+    const steps = (value: unknown) => Array.isArray(value) ? value as SetupStep[] : [];
+    return { setup: steps(setup["setup-worktree"]), teardown: steps(setup["teardown-worktree"]) };
+}
+
+/**
+ * Inspect a repository and suggest entries for its setup file
+ *
+ * @param repoRoot - Main worktree of the repository
+ * @returns Suggestions in the order they should be offered
+ */
+export async function suggestSetupEntries(repoRoot: string): Promise<InitSuggestion[]> {
+    const suggestions: InitSuggestion[] = [];
+    const files = new Set(await readdir(repoRoot).catch(() => [] as string[]));
+
+    const cursor = await readCursorSetup(repoRoot);
+    if (cursor) {
+        const reason = ".cursor/worktrees.json";
+        suggestions.push(...cursor.setup.map(value => ({ key: "setup-worktree" as const, value, reason, selected: true })));
+        suggestions.push(...cursor.teardown.map(value => ({ key: "teardown-worktree" as const, value, reason, selected: true })));
+    }
+
+    // Real env files are usually ignored, so they have to be copied over;
+    // without one, the template is copied inside the new worktree instead
+    const envFiles = [...files].filter(file => /^\.env(\..+)?$/.test(file) && !ENV_TEMPLATES.includes(file)).sort();
+    const template = ENV_TEMPLATES.find(file => files.has(file));
+    if (envFiles.length > 0) {
+        suggestions.push(...envFiles.map(file => ({ key: "copy" as const, value: file, reason: "env file", selected: true })));
+    } else if (template) {
+        suggestions.push({ key: "setup-worktree", value: `cp -n ${template} .env`, reason: template, selected: true });
+    }
+
+    for (const step of await detectInstallSteps(repoRoot)) {
+        suggestions.push({ key: "setup-worktree", value: [step.tool, ...step.args].join(" "), reason: step.file, selected: true });
+    }
+
+    const compose = COMPOSE_FILES.find(file => files.has(file));
+    if (compose) {
+        suggestions.push({ key: "setup-worktree", value: "docker compose up -d", reason: compose, selected: false });
+        suggestions.push({ key: "teardown-worktree", value: "docker compose down", reason: compose, selected: true });
+    }
+
+    // Steps imported from Cursor's file come first; drop suggestions that repeat them
+    const seen = new Set<string>();
+    return suggestions.filter(({ key, value }) => {
+        const id = `${key}\0${JSON.stringify(value)}`;
+        if (seen.has(id)) {
+            return false;
+        }
+        seen.add(id);
+        return true;
+    });
+}
+
+/**
+ * Build setup file contents from the selected suggestions
+ */
+export function buildSetupFile(selected: InitSuggestion[]): WorktreeSetupData {
+    const data: WorktreeSetupData = { $schema: SCHEMA_URL };
+    for (const key of ["setup-worktree", "teardown-worktree", "copy"] as const) {
+        const values = selected.filter(suggestion => suggestion.key === key).map(suggestion => suggestion.value);
+        if (values.length > 0) {
+            data[key] = values as string[];
+        }
+    }
+    return data;
+}
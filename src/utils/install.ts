@@ -0,0 +1,299 @@
+import chalk from "chalk";
+import { constants } from "node:fs";
+import { copyFile, link, lstat, mkdir, readdir, readFile, readlink, rm, stat, symlink } from "node:fs/promises";
+import { join } from "node:path";
+import { AtomicWorktreeOperation } from "./atomic.js";
+import { getRepoRoot, getWorktrees } from "./git.js";
+import { loadAutoInstall, loadSeedDirectories } from "./setup.js";
+
+/**
+ * Dependency installation for new worktrees
+ *
+ * `--install <tool>` runs `<tool> install`. `--install` without a value (or
+ * `autoInstall: true` in worktrees.json) detects the tools from the lockfiles
+ * and manifests in the worktree instead, one per ecosystem, so a repository
+ * with a JavaScript frontend and a Go backend gets both installed.
+ *
+ * With `seedDependencies` configured, dependency directories such as
+ * node_modules are cloned from the main worktree first when the lockfiles
+ * match, so the install that follows has next to nothing left to do.
+ */
+
+/**
+ * An install command to run in a worktree
+ */
+export interface InstallStep {
+    /** Executable to run */
+    tool: string;
+    /** Arguments for the install */
+    args: string[];
+    /** File the tool was detected from */
+    file: string;
+}
+
+/**
+ * Lockfiles and manifests per ecosystem, in order of preference
+ *
+ * Within an ecosystem the first file found wins, so a lockfile takes
+ * precedence over a bare manifest.
+ */
+const INSTALL_DETECTORS: Array<{ ecosystem: string; candidates: InstallStep[] }> = [
+    {
+        ecosystem: "JavaScript",
+        candidates: [
+            { file: "pnpm-lock.yaml", tool: "pnpm", args: ["install"] },
+            { file: "bun.lockb", tool: "bun", args: ["install"] },
+            { file: "bun.lock", tool: "bun", args: ["install"] },
+            { file: "yarn.lock", tool: "yarn", args: ["install"] },
+            { file: "package-lock.json", tool: "npm", args: ["install"] },
+            { file: "package.json", tool: "npm", args: ["install"] },
+        ],
+    },
+    {
+        ecosystem: "Python",
+        candidates: [
+            { file: "uv.lock", tool: "uv", args: ["sync"] },
+            { file: "poetry.lock", tool: "poetry", args: ["install"] },
+        ],
+    },
+    {
+        ecosystem: "Ruby",
+        candidates: [
+            { file: "Gemfile.lock", tool: "bundle", args: ["install"] },
+            { file: "Gemfile", tool: "bundle", args: ["install"] },
+        ],
+    },
+    {
+        ecosystem: "Go",
+        candidates: [
+            { file: "go.sum", tool: "go", args: ["mod", "download"] },
+        ],
+    },
+    {
+        ecosystem: "Rust",
+        candidates: [
+            { file: "Cargo.lock", tool: "cargo", args: ["fetch"] },
+        ],
+    },
+];
+
+/**
+ * Detected files that are manifests rather than lockfiles
+ */
+const MANIFEST_FILES = new Set(["package.json", "Gemfile"]);
+
+/**
+ * Detect the install commands for a directory from its lockfiles and manifests
+ *
+ * @param dir - Worktree to inspect (only its top level is checked)
+ * @returns One step per detected ecosystem
+ */
+export async function detectInstallSteps(dir: string): Promise<InstallStep[]> {
+    const exists = (file: string) => stat(join(dir, file)).then(s => s.isFile(), () => false);
+
+    const steps: InstallStep[] = [];
+    for (const { candidates } of INSTALL_DETECTORS) {
+        for (const candidate of candidates) {
+            if (await exists(candidate.file)) {
+                steps.push(candidate);
+                break;
+            }
+        }
+    }
+    return steps;
+}
+
+/**
+ * How files were seeded: copy-on-write clones, or hardlinks where the
+ * filesystem can't clone
+ */
+export type SeedMethod = "clone" | "hardlink";
+
+/**
+ * Recreate a directory tree using copy-on-write clones of its files
+ *
+ * Falls back to hardlinks for the rest of the tree as soon as a clone is
+ * refused. Symlinks are recreated as they are, so relative links (as used
+ * by pnpm) keep pointing inside the new tree.
+ *
+ * @param state - Shared between calls; `method` is downgraded on the first refused clone
+ * @throws If neither cloning nor hardlinking is possible (e.g. across filesystems)
+ */
+export async function cloneTree(source: string, target: string, state: { method: SeedMethod; files: number }): Promise<void> {
+    await mkdir(target, { recursive: true });
+
+    for (const entry of await readdir(source, { withFileTypes: true })) {
+        const from = join(source, entry.name);
+        const to = join(target, entry.name);
+
+        if (entry.isDirectory()) {
+            await cloneTree(from, to, state);
+        } else if (entry.isSymbolicLink()) {
+            await symlink(await readlink(from), to);
+        } else if (entry.isFile()) {
+            if (state.method === "clone") {
+                try {
+                    await copyFile(from, to, constants.COPYFILE_FICLONE_FORCE);
+                    state.files++;
+                    continue;
+                } catch {
+                    state.method = "hardlink";
+                }
+            }
+            await link(from, to);
+            state.files++;
+        }
+    }
+}
+
+/**
+ * Check that every lockfile in the worktree is identical to the main worktree's
+ *
+ * @returns The lockfiles compared, or a description of why seeding isn't safe
+ */
+async function compareLockfiles(sourceRoot: string, worktreePath: string): Promise<{ lockfiles: string[] } | { reason: string }> {
+    const lockfiles = (await detectInstallSteps(worktreePath))
+        .map(step => step.file)
+        .filter(file => !MANIFEST_FILES.has(file));
+    if (lockfiles.length === 0) {
+        return { reason: "no lockfile to compare with the main worktree" };
+    }
+
+    for (const file of lockfiles) {
+        const [ours, theirs] = await Promise.all([
+            readFile(join(worktreePath, file)),
+            readFile(join(sourceRoot, file)).catch(() => null),
+        ]);
+        if (!theirs || !ours.equals(theirs)) {
+            return { reason: `${file} differs from the main worktree` };
+        }
+    }
+    return { lockfiles };
+}
+
+/**
+ * Clone the `seedDependencies` directories from the main worktree into a new worktree
+ *
+ * Only done when the lockfiles match, since the directories would otherwise
+ * be reconciled by the install anyway. Directories that already exist in the
+ * worktree or are missing in the main worktree are left alone. Seeding
+ * problems are reported and the install simply runs from scratch.
+ *
+ * @param repoRoot - Repository root to read the setup file from
+ * @param worktreePath - The new worktree
+ */
+async function seedDependencies(repoRoot: string, worktreePath: string): Promise<void> {
+    const dirs = await loadSeedDirectories(repoRoot);
+    if (dirs.length === 0) {
+        return;
+    }
+
+    const main = (await getWorktrees()).find(wt => wt.isMain && !wt.bare);
+    const sourceRoot = main?.path ?? repoRoot;
+
+    const comparison = await compareLockfiles(sourceRoot, worktreePath);
+    if ("reason" in comparison) {
+        console.log(chalk.yellow(`Not seeding dependencies: ${comparison.reason}. Running a full install.`));
+        return;
+    }
+
+    const exists = (path: string) => lstat(path).then(() => true, () => false);
+    const state: { method: SeedMethod; files: number } = { method: "clone", files: 0 };
+    const seeded: string[] = [];
+    for (const dir of dirs) {
+        const source = join(sourceRoot, dir);
+        const target = join(worktreePath, dir);
+        if (!(await exists(source)) || await exists(target)) {
+            continue;
+        }
+
+        try {
+            await cloneTree(source, target, state);
+            seeded.push(dir);
+        } catch (error) {
+            await rm(target, { recursive: true, force: true });
+            const message = error instanceof Error ? error.message : String(error);
+            console.log(chalk.yellow(`Could not seed ${dir} (${message}). Running a full install.`));
+            return;
+        }
+    }
+
+    if (seeded.length > 0) {
+        const how = state.method === "clone" ? "copy-on-write clones" : "hardlinks";
+        console.log(chalk.blue(`Seeded ${seeded.join(", ")} from ${sourceRoot} (${state.files} file(s) as ${how}; ${comparison.lockfiles.join(", ")} unchanged).`));
+    }
+}
+
+/**
+ * Install dependencies in a new worktree as requested by `--install`
+ *
+ * Seeds the configured dependency directories from the main worktree first.
+ *
+ * @param atomic - The operation the worktree was created with
+ * @param worktreePath - The new worktree
+ * @param install - A tool name, true to detect the tools, or undefined to
+ *   detect only when `autoInstall` is enabled in worktrees.json
+ * @returns The tools that were run
+ */
+export async function installDependencies(
+    atomic: AtomicWorktreeOperation,
+    worktreePath: string,
+    install: string | boolean | undefined
+): Promise<string[]> {
+    const repoRoot = await getRepoRoot();
+    if (install === undefined) {
+        install = repoRoot ? await loadAutoInstall(repoRoot) : false;
+    }
+    if (!install) {
+        return [];
+    }
+
+    if (repoRoot) {
+        await seedDependencies(repoRoot, worktreePath);
+    }
+
+    if (typeof install === "string") {
+        await atomic.runInstall(install, worktreePath);
+        return [install];
+    }
+
+    const steps = await detectInstallSteps(worktreePath);
+    if (steps.length === 0) {
+        console.log(chalk.yellow("No lockfile or manifest found, skipping dependency installation."));
+        return [];
+    }
+
+    for (const step of steps) {
+        console.log(chalk.blue(`Detected ${step.file}, running ${[step.tool, ...step.args].join(" ")}...`));
+        await atomic.runInstall(step.tool, worktreePath, step.args);
+    }
+    return steps.map(step => step.tool);
+}
+
+/**
+ * Work out what `--install` would run, without running anything
+ *
+ * The new worktree doesn't exist yet, so tools are detected from the main
+ * worktree's lockfiles and manifests.
+ *
+ * @param install - As for installDependencies()
+ * @returns The install commands and the directories that would be seeded
+ *   (when the lockfiles match), or null if nothing would be installed
+ */
+export async function planInstall(install: string | boolean | undefined): Promise<{ commands: string[]; seed: string[] } | null> {
+    const repoRoot = await getRepoRoot();
+    if (install === undefined) {
+        install = repoRoot ? await loadAutoInstall(repoRoot) : false;
+    }
+    if (!install || !repoRoot) {
+        return null;
+    }
+
+    const main = (await getWorktrees()).find(wt => wt.isMain && !wt.bare);
+    const sourceRoot = main?.path ?? repoRoot;
+
+    const commands = typeof install === "string"
+        ? [`${install} install`]
+        : (await detectInstallSteps(sourceRoot)).map(step => `${[step.tool, ...step.args].join(" ")} (detected from ${step.file})`);
+    return { commands, seed: await loadSeedDirectories(repoRoot) };
+}
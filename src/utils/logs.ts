@@ -0,0 +1,291 @@
+import { execa, ExecaChildProcess } from "execa";
+import { createHash } from "node:crypto";
+import { appendFileSync, writeFileSync } from "node:fs";
+import { mkdir, open, readdir, realpath, stat } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { resolveWorktreeName } from "./paths.js";
+import { runGit } from "./query.js";
+import { onShutdown } from "./shutdown.js";
+
+/**
+ * Logs of the setup and install commands run while creating a worktree
+ *
+ * Output is still streamed to the terminal, and also written to
+ * `.git/wt-logs/<worktree-name>-<path-hash>.log` in the main repository. The
+ * log lives outside the worktree so it survives a rollback, and each new run
+ * for the same worktree replaces the previous one.
+ *
+ * A log starts with a header (command line, worktree, branch, pid, start time), then
+ * one section per command with its start time, output and exit code, and
+ * ends with a `# finished:` line written when the wt process exits.
+ */
+
+const LOG_DIRECTORY = "wt-logs";
+const FINISHED_MARKER = "# finished:";
+/** Grace period between SIGTERM and SIGKILL for a timed out command */
+const FORCE_KILL_DELAY_MS = 2000;
+
+async function normalizePath(path: string): Promise<string> {
+    try {
+        return await realpath(path);
+    } catch {
+        return resolve(path);
+    }
+}
+
+async function getLogDirectory(cwd: string): Promise<string> {
+    const { stdout } = await runGit(["rev-parse", "--path-format=absolute", "--git-common-dir"], { cwd });
+    return join(stdout.trim(), LOG_DIRECTORY);
+}
+
+/**
+ * Get the log file for a worktree
+ *
+ * The file is named after the branch plus a short hash of the worktree path,
+ * so branches with the same directory name (`feat/x` and `feat-x`) don't
+ * share a log.
+ *
+ * @param worktreePath - The worktree
+ * @param name - Branch of the worktree, or its directory name when detached
+ * @param cwd - Directory inside the repository
+ */
+export async function getLogPath(worktreePath: string, name: string, cwd: string = "."): Promise<string> {
+    const hash = createHash("sha256").update(await normalizePath(worktreePath)).digest("hex").slice(0, 8);
+    return join(await getLogDirectory(cwd), `${resolveWorktreeName(name)}-${hash}.log`);
+}
+
+/**
+ * Find the most recent log of a branch, for worktrees that no longer exist
+ * (e.g. after a rollback)
+ *
+ * @param branch - Branch recorded in the log header
+ * @param cwd - Directory inside the repository
+ * @returns Path of the log, or null if the branch has none
+ */
+export async function findLatestLog(branch: string, cwd: string = "."): Promise<string | null> {
+    const directory = await getLogDirectory(cwd);
+    const prefix = `${resolveWorktreeName(branch)}-`;
+    const names = await readdir(directory).catch(() => [] as string[]);
+
+    let latest: { path: string; mtime: number } | null = null;
+    for (const name of names.filter(name => name.startsWith(prefix) && name.endsWith(".log"))) {
+        const path = join(directory, name);
+        if (await readLogBranch(path) !== branch) continue;
+
+        const { mtimeMs } = await stat(path);
+        if (!latest || mtimeMs > latest.mtime) {
+            latest = { path, mtime: mtimeMs };
+        }
+    }
+    return latest?.path ?? null;
+}
+
+/**
+ * Read the branch from the header of a log
+ */
+async function readLogBranch(logPath: string): Promise<string | null> {
+    const handle = await open(logPath, "r");
+    try {
+        const buffer = Buffer.alloc(4096);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        const match = buffer.toString("utf-8", 0, bytesRead).match(/^# branch: (.*)$/m);
+        return match ? match[1] : null;
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Logs started by this process, keyed by worktree path
+ */
+const activeLogs = new Map<string, string>();
+
+/**
+ * Start logging the setup/install commands run in a new worktree
+ *
+ * Commands run through execLogged() in the worktree are recorded until this
+ * process exits.
+ *
+ * @param worktreePath - The new worktree
+ * @param name - Branch of the worktree, or null when detached
+ */
+export async function startRunLog(worktreePath: string, name: string | null): Promise<void> {
+    const logPath = await getLogPath(worktreePath, name ?? basename(worktreePath), worktreePath);
+    await mkdir(join(logPath, ".."), { recursive: true });
+
+    writeFileSync(logPath, [
+        `# run: wt ${process.argv.slice(2).join(" ")}`,
+        `# worktree: ${worktreePath}`,
+        ...(name ? [`# branch: ${name}`] : []),
+        `# pid: ${process.pid}`,
+        `# started: ${new Date().toISOString()}`,
+        "",
+    ].join("\n"));
+    activeLogs.set(resolve(worktreePath), logPath);
+
+    process.once("exit", code => {
+        try {
+            appendFileSync(logPath, `\n${FINISHED_MARKER} ${new Date().toISOString()} (exit code ${code})\n`);
+        } catch {
+            // The log directory may have been removed meanwhile
+        }
+    });
+}
+
+/**
+ * Options for execLogged()
+ */
+export interface ExecLoggedOptions {
+    cwd: string;
+    env?: NodeJS.ProcessEnv;
+    shell?: boolean;
+    /** Worktree whose log to record in, when `cwd` is a directory inside it */
+    worktree?: string;
+    /** Kill the command after this many milliseconds */
+    timeout?: number;
+    /**
+     * Don't stream output to the terminal (commands running side by side);
+     * the combined output is available as `all` on the thrown error, and the
+     * command's log section is written in one piece when it ends
+     */
+    quiet?: boolean;
+}
+
+/**
+ * Run a command, recording its output in the worktree's log if one was started
+ *
+ * Output is streamed to the terminal unless `quiet` is set; without an active
+ * log the command simply inherits stdio.
+ *
+ * @throws The execa error if the command fails or times out
+ */
+export async function execLogged(file: string, args: string[], options: ExecLoggedOptions): Promise<void> {
+    const { worktree, quiet, timeout, ...spawnOptions } = options;
+    // A timed command gets its own process group so the timeout can kill all of it (see waitForCommand())
+    const groupTimeout = timeout !== undefined && process.platform !== "win32" ? timeout : undefined;
+    const execOptions = {
+        ...spawnOptions,
+        ...(timeout !== undefined && (groupTimeout !== undefined ? { detached: true } : { timeout })),
+    };
+
+    const logPath = activeLogs.get(resolve(worktree ?? options.cwd));
+    if (!logPath) {
+        await waitForCommand(execa(file, args, quiet
+            ? { ...execOptions, stdin: "ignore", all: true }
+            : { ...execOptions, stdio: "inherit" }), groupTimeout);
+        return;
+    }
+
+    const write = (text: string | Buffer) => {
+        try {
+            appendFileSync(logPath, text);
+        } catch {
+            // Logging must never break the command itself
+        }
+    };
+    // Quiet commands run side by side, so each one's section is written in one piece when it ends
+    const held: Array<string | Buffer> = [];
+    const append = quiet
+        ? (text: string | Buffer) => {
+            held.push(text);
+        }
+        : write;
+    const flush = () => {
+        if (held.length > 0) {
+            write(Buffer.concat(held.map(part => typeof part === "string" ? Buffer.from(part) : part)));
+        }
+    };
+
+    const commandLine = [file, ...args].join(" ");
+    const startedAt = Date.now();
+    append(`\n$ ${commandLine}\n# started: ${new Date(startedAt).toISOString()}\n`);
+
+    const child = execa(file, args, { ...execOptions, stdin: quiet ? "ignore" : "inherit", stdout: "pipe", stderr: "pipe", all: quiet });
+    child.stdout?.on("data", (chunk: Buffer) => {
+        if (!quiet) process.stdout.write(chunk);
+        append(chunk);
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+        if (!quiet) process.stderr.write(chunk);
+        append(chunk);
+    });
+
+    const ended = () => `ended ${new Date().toISOString()}, ${((Date.now() - startedAt) / 1000).toFixed(1)}s`;
+    try {
+        await waitForCommand(child, groupTimeout);
+        append(`# exit code: 0 (${ended()})\n`);
+    } catch (error: any) {
+        append(`# exit code: ${error?.exitCode ?? "none"} (${ended()})${error?.exitCode === undefined ? ` ${error?.shortMessage ?? error?.message ?? ""}` : ""}\n`);
+        throw error;
+    } finally {
+        flush();
+    }
+}
+
+/**
+ * Wait for a command, killing its whole process group once `timeout` ms have passed
+ *
+ * The shell of a `shell: true` command doesn't pass signals on, and the
+ * commands it started keep the output pipes open, so killing only the shell
+ * would leave the wait hanging until they finish on their own. The command
+ * must have been started with `detached: true` to lead its own group.
+ *
+ * @throws The execa error, with `timedOut` set if the timeout killed the command
+ */
+async function waitForCommand(child: ExecaChildProcess, timeout?: number): Promise<void> {
+    const pid = child.pid;
+    if (timeout === undefined || pid === undefined) {
+        await child;
+        return;
+    }
+
+    const killGroup = (signal: NodeJS.Signals) => {
+        try {
+            process.kill(-pid, signal);
+        } catch {
+            // The group has already exited
+        }
+    };
+
+    let timedOut = false;
+    let forceKill: NodeJS.Timeout | undefined;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup("SIGTERM");
+        forceKill = setTimeout(() => killGroup("SIGKILL"), FORCE_KILL_DELAY_MS);
+    }, timeout);
+
+    // The group no longer gets the terminal's Ctrl+C, so take it down along with wt
+    const killOnExit = () => killGroup("SIGKILL");
+    process.once("exit", killOnExit);
+    const unregister = onShutdown(killOnExit);
+
+    try {
+        await child;
+    } catch (error: any) {
+        if (timedOut) {
+            error.timedOut = true;
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        clearTimeout(forceKill);
+        process.off("exit", killOnExit);
+        unregister();
+    }
+}
+
+/**
+ * Check whether a log's run has finished
+ */
+export function isRunFinished(content: string): boolean {
+    return content.includes(`\n${FINISHED_MARKER}`);
+}
+
+/**
+ * Read the pid of the process writing a log
+ */
+export function getRunPid(content: string): number | null {
+    const match = content.match(/^# pid: (\d+)$/m);
+    return match ? Number(match[1]) : null;
+}
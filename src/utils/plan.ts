@@ -0,0 +1,222 @@
+import chalk from "chalk";
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { getDefaultEditor, shouldSkipEditor } from "../config.js";
+import { getRepoRoot, getUpstreamRemote, isMainRepoBare, isWorktreeClean } from "./git.js";
+import { planInstall } from "./install.js";
+import { resolveWorktreePath } from "./paths.js";
+import { describePortBlock, previewPorts } from "./ports.js";
+import { runGit } from "./query.js";
+import {
+    HookContext,
+    HookPlan,
+    loadPortsConfig,
+    loadWorktreeFilesConfig,
+    planHookCommands,
+    SetupFailureMode,
+    WorktreeFilesConfig,
+} from "./setup.js";
+
+/**
+ * Plans for `--dry-run`
+ *
+ * `wt new`, `wt setup` and `wt pr` resolve everything they would do (path,
+ * branch, remote, files, ports, install and setup commands with their
+ * environment) and print it instead. Building a plan only reads from the
+ * repository; nothing is created, fetched, stashed or stored.
+ */
+
+/**
+ * What a worktree-creating command is asked to do
+ */
+export interface WorktreePlanRequest {
+    /** Command shown in the plan's header, e.g. "wt new feature/login" */
+    command: string;
+    /** Branch the worktree is for */
+    branch: string;
+    /** `--path`, if given */
+    customPath?: string;
+    /** git arguments that would bring the branch into the repository (`wt pr`) */
+    fetch?: string[];
+    /** `--install`, if given */
+    install?: string | boolean;
+    /** `--editor`, if given */
+    editor?: string;
+    /** Setup commands to preview; omitted when the command won't run them */
+    setup?: { profile?: string; onFailure?: SetupFailureMode; context?: HookContext };
+}
+
+/**
+ * Everything a worktree-creating command would do
+ */
+export interface WorktreePlan {
+    command: string;
+    /** Final worktree path */
+    path: string;
+    /** Whether the path is free, already a worktree (reused), or blocked by another directory */
+    directory: "new" | "worktree" | "other";
+    branch: string;
+    /** Whether the branch is created from HEAD, reused, created from its remote counterpart, or fetched */
+    branchSource: "new" | "local" | "remote" | "fetch";
+    /** Branch or commit a new branch would start from */
+    base: string;
+    remote: string;
+    /** git command that would fetch the branch */
+    fetch?: string;
+    /** Whether the main worktree has uncommitted changes (null for bare repositories) */
+    dirty: boolean | null;
+    files: WorktreeFilesConfig | null;
+    ports: { base: number; count: number; existing: boolean; envFile?: string } | null;
+    install: { commands: string[]; seed: string[] } | null;
+    /** Whether setup commands were requested, and what they resolve to */
+    setupRequested: boolean;
+    setup: HookPlan | null;
+    /** Editor the worktree would be opened in, or null if skipped */
+    editor: string | null;
+}
+
+/**
+ * Resolve what a worktree-creating command would do, without doing it
+ */
+export async function buildWorktreePlan(request: WorktreePlanRequest): Promise<WorktreePlan> {
+    const repoRoot = await getRepoRoot();
+    const path = await resolveWorktreePath(request.branch, {
+        customPath: request.customPath,
+        useRepoNamespace: true,
+    });
+
+    let directory: WorktreePlan["directory"] = "new";
+    if (await stat(path).then(() => true, () => false)) {
+        directory = await stat(join(path, ".git")).then(() => "worktree" as const, () => "other" as const);
+    }
+
+    const remote = await getUpstreamRemote();
+    const hasRef = async (ref: string) => (await runGit(["rev-parse", "--verify", "--quiet", ref], { reject: false })).exitCode === 0;
+    let branchSource: WorktreePlan["branchSource"];
+    if (await hasRef(`refs/heads/${request.branch}`)) {
+        branchSource = "local";
+    } else if (request.fetch) {
+        branchSource = "fetch";
+    } else if (await hasRef(`refs/remotes/${remote}/${request.branch}`)) {
+        branchSource = "remote";
+    } else {
+        branchSource = "new";
+    }
+
+    const head = await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], { reject: false });
+    const base = head.exitCode === 0
+        ? head.stdout.trim()
+        : (await runGit(["rev-parse", "--short", "HEAD"], { reject: false })).stdout.trim();
+
+    const dirty = await isMainRepoBare() ? null : !(await isWorktreeClean("."));
+
+    // Nothing is set up in a directory that already exists
+    const creates = directory === "new";
+    const portsConfig = creates && repoRoot ? await loadPortsConfig(repoRoot) : null;
+    const ports = portsConfig
+        ? { ...await previewPorts(path, portsConfig), ...(portsConfig.envFile && { envFile: portsConfig.envFile }) }
+        : null;
+
+    const setup = creates && request.setup
+        ? await planHookCommands("setup-worktree", path, { ...request.setup, context: { branch: request.branch, ...request.setup.context } }, ports)
+        : null;
+
+    const editor = request.editor || getDefaultEditor();
+
+    return {
+        command: request.command,
+        path,
+        directory,
+        branch: request.branch,
+        branchSource,
+        base,
+        remote,
+        ...(request.fetch && { fetch: `git ${request.fetch.join(" ")}` }),
+        dirty,
+        files: creates && repoRoot ? await loadWorktreeFilesConfig(repoRoot) : null,
+        ports,
+        install: creates ? await planInstall(request.install) : null,
+        setupRequested: creates && request.setup !== undefined,
+        setup,
+        editor: shouldSkipEditor(editor) ? null : editor,
+    };
+}
+
+/**
+ * Print a plan built by buildWorktreePlan()
+ */
+export function printWorktreePlan(plan: WorktreePlan): void {
+    const row = (label: string, value: string) => console.log(label ? `  ${chalk.gray(label.padEnd(10))}${value}` : `  ${value}`);
+
+    console.log(chalk.blue(`Dry run: ${plan.command} (nothing will be changed)\n`));
+
+    console.log(chalk.bold("Worktree"));
+    const directory = {
+        new: "(will be created)",
+        worktree: "(already exists; would be reused, nothing else runs)",
+        other: chalk.yellow("(exists but is not a worktree)"),
+    }[plan.directory];
+    row("path", `${plan.path} ${directory}`);
+    const branch = {
+        new: `new branch from "${plan.base}"`,
+        local: "existing local branch",
+        remote: `created from ${plan.remote}/${plan.branch}`,
+        fetch: "fetched from the remote",
+    }[plan.branchSource];
+    row("branch", `${plan.branch} (${branch})`);
+    row("remote", plan.remote);
+    if (plan.fetch) {
+        row("fetch", plan.fetch);
+    }
+    if (plan.dirty) {
+        row("main", chalk.yellow("uncommitted changes; you would be asked to stash, continue or abort"));
+    }
+
+    if (plan.directory === "new") {
+        console.log(chalk.bold("\nFiles"));
+        if (plan.files) {
+            row("from", plan.files.filePath);
+            plan.files.copy.forEach(pattern => row("copy", pattern));
+            plan.files.symlink.forEach(pattern => row("symlink", pattern));
+        } else {
+            row("", chalk.gray("none configured"));
+        }
+
+        if (plan.ports) {
+            console.log(chalk.bold("\nPorts"));
+            const note = plan.ports.existing ? " (already assigned)" : "";
+            row("assign", `${describePortBlock(plan.ports)}${note}${plan.ports.envFile ? `, written to ${plan.ports.envFile}` : ""}`);
+        }
+
+        console.log(chalk.bold("\nInstall"));
+        if (plan.install && plan.install.commands.length > 0) {
+            plan.install.commands.forEach(command => row("run", command));
+            if (plan.install.seed.length > 0) {
+                row("seed", `${plan.install.seed.join(", ")} from the main worktree, if the lockfiles match`);
+            }
+        } else {
+            row("", chalk.gray(plan.install ? "no lockfile or manifest found" : "not requested"));
+        }
+
+        console.log(chalk.bold("\nSetup"));
+        if (!plan.setupRequested) {
+            row("", chalk.gray("not requested"));
+        } else if (!plan.setup) {
+            row("", chalk.gray("no setup-worktree commands found"));
+        } else {
+            row("from", `${plan.setup.filePath}${plan.setup.profile ? ` (profile "${plan.setup.profile}")` : ""}`);
+            row("onFailure", plan.setup.onFailure);
+            for (const step of plan.setup.steps) {
+                const notes = [step.condition && `when ${step.condition}`, step.options].filter(Boolean).join("; ");
+                row("run", `${step.command}${notes ? chalk.gray(`  (${notes})`) : ""}`);
+            }
+            console.log(chalk.bold("\nEnvironment"));
+            for (const [name, value] of Object.entries(plan.setup.env)) {
+                row("", `${name}=${value}`);
+            }
+        }
+    }
+
+    console.log(chalk.bold("\nEditor"));
+    row("", plan.editor ?? chalk.gray("none"));
+}
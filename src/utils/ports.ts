@@ -0,0 +1,296 @@
+import Conf from "conf";
+import { existsSync } from "node:fs";
+import { createServer } from "node:net";
+import { lstat, readFile, realpath, rm, stat, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { getConfigDir } from "../config.js";
+
+/**
+ * Per-worktree port allocation
+ *
+ * Each worktree can be assigned a block of consecutive ports so dev servers
+ * in different worktrees don't collide. Assignments are machine-wide (ports
+ * are), stored in `ports.json` next to the CLI's config file, and keyed by
+ * worktree path so a worktree keeps its ports until it is removed.
+ */
+
+/**
+ * A block of ports assigned to a worktree
+ */
+export interface PortAssignment {
+    /** Absolute path of the worktree */
+    path: string;
+    /** Repository root the worktree belongs to */
+    repo: string;
+    /** Branch of the worktree when the ports were assigned */
+    branch: string;
+    /** First port of the block */
+    base: number;
+    /** Number of consecutive ports */
+    count: number;
+    /** When the block was assigned (ISO 8601) */
+    assignedAt: string;
+}
+
+/**
+ * Settings from the `ports` key of worktrees.json
+ */
+export interface PortsConfig {
+    /** Number of consecutive ports per worktree */
+    count: number;
+    /** First port blocks are allocated from */
+    start: number;
+    /** File in the worktree to write the WT_PORT variables to (e.g. ".env") */
+    envFile?: string;
+}
+
+export const DEFAULT_PORTS_CONFIG: PortsConfig = { count: 1, start: 4000 };
+
+const MAX_PORT = 65535;
+
+interface PortsSchema {
+    assignments: PortAssignment[];
+}
+
+let store: Conf<PortsSchema> | null = null;
+
+function getStore(): Conf<PortsSchema> {
+    store ??= new Conf<PortsSchema>({
+        cwd: getConfigDir(),
+        configName: "ports",
+        defaults: { assignments: [] },
+    });
+    return store;
+}
+
+async function normalizePath(path: string): Promise<string> {
+    try {
+        return await realpath(path);
+    } catch {
+        return resolve(path);
+    }
+}
+
+/**
+ * List all port assignments
+ *
+ * Reading doesn't create `ports.json`, so repositories without a `ports`
+ * setting leave nothing behind in the config directory.
+ */
+export function getPortAssignments(): PortAssignment[] {
+    if (!store && !existsSync(join(getConfigDir(), "ports.json"))) {
+        return [];
+    }
+    return getStore().get("assignments");
+}
+
+/**
+ * Find the ports assigned to a worktree
+ */
+export async function findPortAssignment(worktreePath: string): Promise<PortAssignment | null> {
+    const path = await normalizePath(worktreePath);
+    return getPortAssignments().find(assignment => assignment.path === path) ?? null;
+}
+
+/**
+ * Find the lowest block of `count` ports starting at or after `start` that
+ * doesn't overlap any of the given blocks
+ *
+ * Blocks are aligned to multiples of `count` from `start`, so a worktree's
+ * ports stay together and are easy to recognize.
+ *
+ * @param taken - Blocks that are already assigned
+ * @param skip - Ports that are known to be in use by something else
+ * @returns First port of the free block, or null if the range is exhausted
+ */
+export function findFreePortBlock(
+    taken: Array<{ base: number; count: number }>,
+    count: number,
+    start: number,
+    skip: Set<number> = new Set()
+): number | null {
+    for (let base = start; base + count - 1 <= MAX_PORT; base += count) {
+        const end = base + count - 1;
+        const overlaps = taken.some(block => base <= block.base + block.count - 1 && block.base <= end);
+        if (overlaps) continue;
+
+        let inUse = false;
+        for (let port = base; port <= end && !inUse; port++) {
+            inUse = skip.has(port);
+        }
+        if (!inUse) return base;
+    }
+    return null;
+}
+
+/**
+ * Check whether something is already listening on a port
+ */
+function isPortInUse(port: number): Promise<boolean> {
+    return new Promise(resolvePromise => {
+        const server = createServer();
+        server.once("error", () => resolvePromise(true));
+        server.once("listening", () => server.close(() => resolvePromise(false)));
+        server.listen(port, "127.0.0.1");
+    });
+}
+
+/**
+ * Work out which block of ports a worktree would get
+ *
+ * Read-only: nothing is stored, so this also serves `--dry-run`.
+ *
+ * @returns The worktree's current block if it already has one of the
+ *   requested size, otherwise the block to assign, along with the
+ *   assignments that are still live
+ */
+async function choosePortBlock(
+    path: string,
+    config: PortsConfig
+): Promise<{ existing: PortAssignment | null; base: number; live: PortAssignment[] }> {
+    const existing = getPortAssignments().find(assignment => assignment.path === path);
+    if (existing && existing.count === config.count) {
+        return { existing, base: existing.base, live: getPortAssignments() };
+    }
+
+    const exists = (dir: string) => stat(dir).then(() => true, () => false);
+    const live: PortAssignment[] = [];
+    for (const assignment of getPortAssignments()) {
+        if (assignment.path !== path && await exists(assignment.path)) {
+            live.push(assignment);
+        }
+    }
+
+    const skip = new Set<number>();
+    let base: number | null = null;
+    // Re-check after discovering ports in use; each pass skips at least one more port
+    for (let attempt = 0; attempt < 50; attempt++) {
+        base = findFreePortBlock(live, config.count, config.start, skip);
+        if (base === null) break;
+
+        const busy: number[] = [];
+        for (let port = base; port < base + config.count; port++) {
+            if (await isPortInUse(port)) busy.push(port);
+        }
+        if (busy.length === 0) break;
+        busy.forEach(port => skip.add(port));
+        base = null;
+    }
+
+    if (base === null) {
+        throw new Error(`No free block of ${config.count} port(s) from ${config.start} to ${MAX_PORT}.`);
+    }
+    return { existing: null, base, live };
+}
+
+/**
+ * Preview the ports a worktree would be assigned, without assigning them
+ *
+ * @returns The block, and whether the worktree already has it
+ */
+export async function previewPorts(
+    worktreePath: string,
+    config: PortsConfig
+): Promise<{ base: number; count: number; existing: boolean }> {
+    const { existing, base } = await choosePortBlock(await normalizePath(worktreePath), config);
+    return { base, count: config.count, existing: existing !== null };
+}
+
+/**
+ * Assign a block of ports to a worktree
+ *
+ * A worktree that already has a block of the requested size keeps it.
+ * Assignments of worktrees whose directory no longer exists are dropped
+ * first, so their ports are reused. Blocks containing a port that is
+ * currently in use are skipped.
+ *
+ * @param worktreePath - Worktree to assign ports to
+ * @param details - Repository and branch, recorded for `wt ports`
+ * @param config - Block size and range
+ * @returns The assignment and whether it was newly created
+ */
+export async function assignPorts(
+    worktreePath: string,
+    details: { repo: string; branch: string },
+    config: PortsConfig
+): Promise<{ assignment: PortAssignment; created: boolean }> {
+    const path = await normalizePath(worktreePath);
+    const { existing, base, live } = await choosePortBlock(path, config);
+    if (existing) {
+        return { assignment: existing, created: false };
+    }
+
+    const assignment: PortAssignment = { path, ...details, base, count: config.count, assignedAt: new Date().toISOString() };
+    getStore().set("assignments", [...live, assignment]);
+    return { assignment, created: true };
+}
+
+/**
+ * Free the ports assigned to a worktree
+ *
+ * @returns The released assignment, or null if the worktree had none
+ */
+export async function releasePorts(worktreePath: string): Promise<PortAssignment | null> {
+    const path = await normalizePath(worktreePath);
+    const assignments = getPortAssignments();
+    const released = assignments.find(assignment => assignment.path === path || assignment.path === resolve(worktreePath));
+    if (!released) {
+        return null;
+    }
+
+    getStore().set("assignments", assignments.filter(assignment => assignment !== released));
+    return released;
+}
+
+/**
+ * Describe a port block for messages, e.g. "port 4000" or "ports 4000-4002"
+ */
+export function describePortBlock(assignment: Pick<PortAssignment, "base" | "count">): string {
+    const { base, count } = assignment;
+    return count > 1 ? `ports ${base}-${base + count - 1}` : `port ${base}`;
+}
+
+/**
+ * Environment variables describing a port block
+ *
+ * `WT_PORT` is the first port; `WT_PORT_1` .. `WT_PORT_<count>` are each port in the block.
+ */
+export function getPortVariables(assignment: Pick<PortAssignment, "base" | "count">): Record<string, string> {
+    const variables: Record<string, string> = { WT_PORT: String(assignment.base) };
+    for (let i = 0; i < assignment.count; i++) {
+        variables[`WT_PORT_${i + 1}`] = String(assignment.base + i);
+    }
+    return variables;
+}
+
+/**
+ * Write a port block into a dotenv file, replacing earlier WT_PORT lines
+ *
+ * Other lines in the file are kept as they are. A symlinked file (e.g. one
+ * linked from the main worktree via `symlink`) is replaced with a copy of its
+ * contents first, so the ports don't end up in the file it points to.
+ *
+ * @returns true if a symlink was replaced with a file
+ */
+export async function writePortEnvFile(filePath: string, assignment: Pick<PortAssignment, "base" | "count">): Promise<boolean> {
+    let lines: string[] = [];
+    try {
+        lines = (await readFile(filePath, "utf-8")).split("\n");
+    } catch {
+        // New file, or a dangling symlink
+    }
+
+    const replacedLink = await lstat(filePath).then(stats => stats.isSymbolicLink(), () => false);
+    if (replacedLink) {
+        await rm(filePath);
+    }
+
+    const kept = lines.filter(line => !/^\s*WT_PORT(_\d+)?\s*=/.test(line));
+    while (kept.length > 0 && kept[kept.length - 1] === "") {
+        kept.pop();
+    }
+
+    const variables = Object.entries(getPortVariables(assignment)).map(([name, value]) => `${name}=${value}`);
+    await writeFile(filePath, [...kept, ...variables].join("\n") + "\n");
+    return replacedLink;
+}
@@ -0,0 +1,239 @@
+import { readdir, readFile, realpath, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { getDefaultWorktreePath } from "../config.js";
+import { getWorktrees, getRepoName } from "./git.js";
+import { runGit } from "./query.js";
+
+/**
+ * Stale and relocated worktree detection for `wt prune` and `wt repair`
+ *
+ * Three situations are detected:
+ * - Administrative entries under `.git/worktrees/` whose directory is gone,
+ *   which `git worktree prune` cleans up.
+ * - Directories in the places `wt new` creates worktrees that git no longer
+ *   knows about (e.g. after `.git/worktrees/<name>` was deleted or pruned).
+ * - Worktree directories that were moved, which `git worktree repair` re-links.
+ */
+
+/**
+ * Worktree metadata that `git worktree prune` would remove
+ */
+export interface StaleWorktreeEntry {
+    /** Entry name under `.git/worktrees/` */
+    name: string;
+    /** Why git considers the entry stale */
+    reason: string;
+}
+
+/**
+ * A directory that looks like a worktree created by wt but isn't registered with git
+ */
+export interface OrphanedDirectory {
+    /** Absolute path of the directory */
+    path: string;
+    /** Why the directory is considered orphaned */
+    reason: string;
+}
+
+/**
+ * List the entries `git worktree prune` would remove, without removing them
+ *
+ * @param cwd - Working directory to run git command from
+ */
+export async function getStaleWorktreeEntries(cwd: string = "."): Promise<StaleWorktreeEntry[]> {
+    // git reports what it would prune on stderr
+    const { stdout, stderr } = await runGit(["worktree", "prune", "--dry-run", "--verbose"], { cwd });
+    const entries: StaleWorktreeEntry[] = [];
+
+    for (const line of `${stdout}\n${stderr}`.split("\n")) {
+        const match = line.match(/^Removing worktrees\/(.+?): (.+)$/);
+        if (match) {
+            entries.push({ name: match[1], reason: match[2] });
+        }
+    }
+    return entries;
+}
+
+async function safeRealpath(path: string): Promise<string> {
+    try {
+        return await realpath(path);
+    } catch {
+        return resolve(path);
+    }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+    try {
+        return (await stat(path)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * List subdirectories of a directory, optionally filtered by name prefix
+ */
+async function listSubdirectories(dir: string, prefix: string = ""): Promise<string[]> {
+    try {
+        const entries = await readdir(dir, { withFileTypes: true });
+        return entries
+            .filter(entry => entry.isDirectory() && entry.name.startsWith(prefix))
+            .map(entry => join(dir, entry.name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Read the admin directory a linked worktree's `.git` file points to
+ *
+ * @returns The gitdir path, "missing" if there is no `.git` at all, or null
+ *   if `.git` is a directory or can't be parsed
+ */
+async function readGitdirLink(dir: string): Promise<string | "missing" | null> {
+    let content: string;
+    try {
+        content = await readFile(join(dir, ".git"), "utf-8");
+    } catch (error: any) {
+        // EISDIR means a regular repository, which is never ours to delete
+        return error?.code === "ENOENT" ? "missing" : null;
+    }
+
+    const match = content.match(/^gitdir:\s*(.+)$/m);
+    return match ? resolve(dir, match[1].trim()) : null;
+}
+
+interface UnregisteredDirectory {
+    /** Absolute path of the directory */
+    path: string;
+    /** Whether the directory lives under the configured worktree root */
+    managed: boolean;
+    /** Result of readGitdirLink() for the directory */
+    link: string | "missing" | null;
+}
+
+/**
+ * Collect directories where wt creates worktrees that git doesn't have registered
+ *
+ * Scans `<defaultWorktreePath>/<repo>/` and sibling `<repo>-*` directories of
+ * the main worktree.
+ */
+async function findUnregisteredDirectories(
+    cwd: string,
+    worktreeRoot: string | null
+): Promise<{ adminRoot: string; directories: UnregisteredDirectory[] }> {
+    const worktrees = await getWorktrees(cwd);
+    const main = worktrees.find(wt => wt.isMain);
+
+    const { stdout: commonDirOutput } = await runGit(["rev-parse", "--git-common-dir"], { cwd });
+    const adminRoot = await safeRealpath(join(resolve(cwd, commonDirOutput.trim()), "worktrees"));
+    if (!main) {
+        return { adminRoot, directories: [] };
+    }
+
+    const registered = new Set(await Promise.all(worktrees.map(wt => safeRealpath(wt.path))));
+
+    const managedDirs = worktreeRoot
+        ? await listSubdirectories(join(worktreeRoot, await getRepoName(cwd)))
+        : [];
+    const siblingDirs = await listSubdirectories(dirname(main.path), `${basename(main.path)}-`);
+
+    const candidates = new Map<string, boolean>();
+    for (const dir of siblingDirs) candidates.set(dir, false);
+    for (const dir of managedDirs) candidates.set(dir, true);
+
+    const directories: UnregisteredDirectory[] = [];
+    for (const [dir, managed] of candidates) {
+        if (!registered.has(await safeRealpath(dir))) {
+            directories.push({ path: dir, managed, link: await readGitdirLink(dir) });
+        }
+    }
+    return { adminRoot, directories };
+}
+
+/**
+ * Find directories where wt creates worktrees that no longer belong to any worktree
+ *
+ * A sibling is only reported if its `.git` file links back to this
+ * repository's metadata that no longer exists, so unrelated folders that
+ * happen to share the prefix are left alone. Everything under the configured
+ * worktree root belongs to wt, so folders there without any git metadata are
+ * reported as well. Worktrees that were merely moved are never reported; see
+ * findRelocatedWorktrees().
+ *
+ * @param cwd - Working directory to run git commands from
+ * @param worktreeRoot - Configured global worktree directory (defaults to the config value, null to skip)
+ */
+export async function findOrphanedDirectories(
+    cwd: string = ".",
+    worktreeRoot: string | null = getDefaultWorktreePath() ?? null
+): Promise<OrphanedDirectory[]> {
+    const { adminRoot, directories } = await findUnregisteredDirectories(cwd, worktreeRoot);
+
+    const orphans: OrphanedDirectory[] = [];
+    for (const { path, managed, link } of directories) {
+        if (link === "missing") {
+            if (managed) {
+                orphans.push({ path, reason: "no git metadata" });
+            }
+        } else if (link && await safeRealpath(dirname(link)) === adminRoot && !(await isDirectory(link))) {
+            orphans.push({ path, reason: "git metadata for this worktree is missing" });
+        }
+    }
+
+    return orphans.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * A registered worktree whose directory was moved
+ */
+export interface RelocatedWorktree {
+    /** Entry name under `.git/worktrees/` */
+    name: string;
+    /** Path git still has recorded (no longer exists) */
+    oldPath: string;
+    /** Where the worktree directory was found */
+    newPath: string;
+}
+
+/**
+ * Find worktrees whose recorded path no longer exists but whose directory was
+ * moved into the configured worktree root or next to the main worktree
+ *
+ * A directory matches when its `.git` file names a `.git/worktrees/<name>`
+ * entry of this repository whose recorded location is gone. Only the entry
+ * name is compared, like `git worktree repair` does, so worktrees are still
+ * found after the main repository itself has moved.
+ *
+ * @param cwd - Working directory to run git commands from
+ * @param worktreeRoot - Configured global worktree directory (defaults to the config value, null to skip)
+ */
+export async function findRelocatedWorktrees(
+    cwd: string = ".",
+    worktreeRoot: string | null = getDefaultWorktreePath() ?? null
+): Promise<RelocatedWorktree[]> {
+    const { adminRoot, directories } = await findUnregisteredDirectories(cwd, worktreeRoot);
+
+    const relocated: RelocatedWorktree[] = [];
+    for (const { path, link } of directories) {
+        if (!link || link === "missing") {
+            continue;
+        }
+
+        const name = basename(link);
+        let recorded: string;
+        try {
+            recorded = (await readFile(join(adminRoot, name, "gitdir"), "utf-8")).trim();
+        } catch {
+            continue;
+        }
+
+        // The recorded gitdir is the worktree's ".git" file
+        const oldPath = dirname(resolve(adminRoot, name, recorded));
+        if (!(await isDirectory(oldPath))) {
+            relocated.push({ name, oldPath, newPath: path });
+        }
+    }
+
+    return relocated.sort((a, b) => a.newPath.localeCompare(b.newPath));
+}
@@ -0,0 +1,111 @@
+import { execa, ExecaReturnValue } from "execa";
+import { availableParallelism } from "node:os";
+import { resolve } from "node:path";
+
+/**
+ * Git query layer for multi-worktree commands
+ *
+ * Commands like `list`, `status` and `purge` need several git queries per
+ * worktree. Running them one after another is slow once a repository has
+ * dozens of worktrees, so this module provides:
+ *
+ * - A bounded concurrency pool that every git query goes through, so we can
+ *   fan out across worktrees without spawning hundreds of processes at once.
+ * - Per-invocation memoization for values that can't change while a single
+ *   command runs (e.g. the upstream remote name).
+ */
+
+/**
+ * Maximum number of git processes running at the same time
+ */
+export const GIT_CONCURRENCY = Math.max(4, availableParallelism());
+
+type Task<T> = () => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at once
+ *
+ * Tasks beyond the limit are queued and started in FIFO order as running
+ * tasks settle.
+ *
+ * @example
+ * const limit = createLimiter(4);
+ * const results = await Promise.all(paths.map(p => limit(() => inspect(p))));
+ */
+export function createLimiter(concurrency: number): <T>(task: Task<T>) => Promise<T> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+
+    let active = 0;
+    const queue: Array<() => void> = [];
+
+    const next = () => {
+        if (active >= concurrency || queue.length === 0) {
+            return;
+        }
+        active++;
+        queue.shift()!();
+    };
+
+    return <T>(task: Task<T>): Promise<T> => {
+        return new Promise<T>((resolvePromise, rejectPromise) => {
+            queue.push(() => {
+                task()
+                    .then(resolvePromise, rejectPromise)
+                    .finally(() => {
+                        active--;
+                        next();
+                    });
+            });
+            next();
+        });
+    };
+}
+
+const gitLimit = createLimiter(GIT_CONCURRENCY);
+
+/**
+ * Run a git command through the shared concurrency pool
+ *
+ * @param args - Arguments passed to git
+ * @param options.cwd - Repository or worktree to run in (passed as `git -C <cwd>`)
+ * @param options.reject - Whether a non-zero exit code should throw (default: true)
+ */
+export function runGit(
+    args: string[],
+    options: { cwd?: string; reject?: boolean } = {}
+): Promise<ExecaReturnValue> {
+    const fullArgs = options.cwd ? ["-C", options.cwd, ...args] : args;
+    return gitLimit(() => execa("git", fullArgs, { reject: options.reject ?? true }));
+}
+
+const memoCache = new Map<string, Promise<unknown>>();
+
+/**
+ * Memoize an async function that takes a working directory for the lifetime of the process
+ *
+ * The cache key is the function name plus the absolute path of `cwd`, so
+ * "." and the resolved repository path share an entry. Rejected promises are
+ * evicted so failures are retried on the next call.
+ *
+ * @param name - Unique cache namespace for this function
+ * @param fn - The function to memoize
+ */
+export function memoizeByCwd<R>(
+    name: string,
+    fn: (cwd: string) => Promise<R>
+): (cwd?: string) => Promise<R> {
+    return (cwd: string = ".") => {
+        const key = `${name}:${resolve(cwd)}`;
+        const cached = memoCache.get(key);
+        if (cached) {
+            return cached as Promise<R>;
+        }
+
+        const promise = fn(cwd);
+        memoCache.set(key, promise);
+        promise.catch(() => memoCache.delete(key));
+        return promise;
+    };
+}
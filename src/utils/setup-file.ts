@@ -0,0 +1,225 @@
+import { extname } from "node:path";
+import { LineCounter, parseDocument } from "yaml";
+
+/**
+ * Parsing of setup files (worktrees.json / worktrees.yaml)
+ *
+ * JSON files may contain comments and trailing commas (JSONC, as in editor
+ * settings files). Parse errors carry the line and column of the problem, and
+ * parsed files can locate any value by its path so that schema errors can
+ * point at the offending line too.
+ */
+
+/**
+ * A 1-based line and column in a setup file
+ */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * Path to a value in a setup file, e.g. ["setup-worktree", 2]
+ */
+export type ValuePath = Array<string | number>;
+
+/**
+ * A successfully parsed setup file
+ */
+export interface ParsedSetupFile {
+    /** The parsed contents */
+    data: unknown;
+    /** Find where a value starts, or null if the path doesn't exist */
+    locate(path: ValuePath): SourcePosition | null;
+}
+
+/**
+ * A setup file that could not be parsed
+ */
+export class SetupFileSyntaxError extends Error {
+    constructor(message: string, public readonly position: SourcePosition | null) {
+        super(message);
+        this.name = "SetupFileSyntaxError";
+    }
+}
+
+/**
+ * Check whether a setup file is YAML, judging by its extension
+ */
+export function isYamlFile(filePath: string): boolean {
+    return [".yaml", ".yml"].includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Convert an offset in a text into a line and column
+ */
+function toPosition(text: string, offset: number): SourcePosition {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (text[i] === "\n") {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas
+ *
+ * @returns The value, and the offset of every value keyed by its JSON-encoded path
+ * @throws SetupFileSyntaxError with the position of the first problem
+ */
+export function parseJsonc(text: string): { value: unknown; offsets: Map<string, number> } {
+    const offsets = new Map<string, number>();
+    let pos = 0;
+
+    const fail = (message: string, at: number = pos): never => {
+        throw new SetupFileSyntaxError(message, toPosition(text, at));
+    };
+    const describe = (at: number) => at >= text.length ? "end of file" : `'${text[at]}'`;
+
+    const skipWhitespace = () => {
+        for (;;) {
+            while (pos < text.length && /\s/.test(text[pos])) pos++;
+            if (text.startsWith("//", pos)) {
+                while (pos < text.length && text[pos] !== "\n") pos++;
+            } else if (text.startsWith("/*", pos)) {
+                const end = text.indexOf("*/", pos + 2);
+                if (end === -1) fail("Unterminated comment");
+                pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    };
+
+    const parseString = (): string => {
+        const start = pos;
+        pos++;
+        let raw = "";
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === "\n") fail("Unterminated string", start);
+            if (text[pos] === "\\") {
+                raw += text[pos++];
+            }
+            raw += text[pos++];
+        }
+        if (pos >= text.length) fail("Unterminated string", start);
+        pos++;
+        try {
+            return JSON.parse(`"${raw}"`);
+        } catch {
+            return fail("Invalid escape sequence in string", start);
+        }
+    };
+
+    const parseValue = (path: ValuePath): unknown => {
+        skipWhitespace();
+        offsets.set(JSON.stringify(path), pos);
+        const char = text[pos];
+
+        if (char === "{") {
+            pos++;
+            const result: Record<string, unknown> = {};
+            skipWhitespace();
+            while (text[pos] !== "}") {
+                if (text[pos] !== '"') fail(`Expected a property name or '}' but found ${describe(pos)}`);
+                const keyStart = pos;
+                const key = parseString();
+                if (Object.prototype.hasOwnProperty.call(result, key)) fail(`Duplicate key "${key}"`, keyStart);
+                skipWhitespace();
+                if (text[pos] !== ":") fail(`Expected ':' after "${key}" but found ${describe(pos)}`);
+                pos++;
+                result[key] = parseValue([...path, key]);
+                skipWhitespace();
+                if (text[pos] === ",") {
+                    pos++;
+                    skipWhitespace();
+                } else if (text[pos] !== "}") {
+                    fail(`Expected ',' or '}' but found ${describe(pos)}`);
+                }
+            }
+            pos++;
+            return result;
+        }
+
+        if (char === "[") {
+            pos++;
+            const result: unknown[] = [];
+            skipWhitespace();
+            while (text[pos] !== "]") {
+                if (pos >= text.length) fail("Expected ',' or ']' but found end of file");
+                result.push(parseValue([...path, result.length]));
+                skipWhitespace();
+                if (text[pos] === ",") {
+                    pos++;
+                    skipWhitespace();
+                } else if (text[pos] !== "]") {
+                    fail(`Expected ',' or ']' but found ${describe(pos)}`);
+                }
+            }
+            pos++;
+            return result;
+        }
+
+        if (char === '"') {
+            return parseString();
+        }
+
+        const literal = text.slice(pos).match(/^(true|false|null|-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?)/);
+        if (!literal) {
+            return fail(`Unexpected ${describe(pos)}`);
+        }
+        pos += literal[0].length;
+        return JSON.parse(literal[0]);
+    };
+
+    const value = parseValue([]);
+    skipWhitespace();
+    if (pos < text.length) {
+        fail(`Unexpected ${describe(pos)} after the end of the content`);
+    }
+    return { value, offsets };
+}
+
+/**
+ * Parse the contents of a setup file
+ *
+ * @param filePath - Used to choose between JSONC and YAML
+ * @param text - Contents of the file
+ * @throws SetupFileSyntaxError if the file can't be parsed
+ */
+export function parseSetupFileText(filePath: string, text: string): ParsedSetupFile {
+    if (!isYamlFile(filePath)) {
+        const { value, offsets } = parseJsonc(text);
+        return {
+            data: value,
+            locate: path => {
+                const offset = offsets.get(JSON.stringify(path));
+                return offset === undefined ? null : toPosition(text, offset);
+            },
+        };
+    }
+
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter, uniqueKeys: true });
+    const [error] = document.errors;
+    if (error) {
+        const position = error.linePos ? { line: error.linePos[0].line, column: error.linePos[0].col } : null;
+        // The first line of a yaml error message is the description; the rest is a code excerpt
+        throw new SetupFileSyntaxError(error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""), position);
+    }
+
+    return {
+        data: document.toJS() ?? null,
+        locate: path => {
+            const node = path.length === 0 ? document.contents : document.getIn(path, true);
+            const range = (node as { range?: [number, number, number] } | null)?.range;
+            if (!range) return null;
+            const { line, col } = lineCounter.linePos(range[0]);
+            return { line, column: col };
+        },
+    };
+}
@@ -2,127 +2,1000 @@ import { execa } from "execa";
 import chalk from "chalk";
 import { stat } from "node:fs/promises";
 import { readFile } from "node:fs/promises";
-import { join } from "node:path";
-import { getRepoRoot } from "./git.js";
+import { basename, isAbsolute, join } from "node:path";
+import { AtomicWorktreeOperation } from "./atomic.js";
+import { getRepoName, getRepoRoot } from "./git.js";
+import {
+    assignPorts,
+    DEFAULT_PORTS_CONFIG,
+    describePortBlock,
+    findPortAssignment,
+    getPortVariables,
+    PortAssignment,
+    PortsConfig,
+    releasePorts,
+    writePortEnvFile,
+} from "./ports.js";
+import { resolveWorktreeName } from "./paths.js";
+import { runGit } from "./query.js";
+import { ParsedSetupFile, parseSetupFileText, SetupFileSyntaxError, SourcePosition, ValuePath } from "./setup-file.js";
 import { createSpinner } from "./spinner.js";
-import { confirmCommands } from "./tui.js";
+import {
+    CONDITION_KEYS,
+    describeStepCondition,
+    describeStepOptions,
+    evaluateStepCondition,
+    HookStep,
+    runHookSteps,
+    SetupStep,
+    STEP_KEYS,
+    toHookStep,
+} from "./steps.js";
+import { confirmTrustedCommands } from "./trust.js";
 
-interface WorktreeSetupData {
-    "setup-worktree"?: string[];
+/**
+ * Lifecycle hooks that can be configured in worktrees.json
+ *
+ * - `setup-worktree`: after `wt setup` or `wt pr --setup` creates a worktree
+ * - `teardown-worktree`: before a worktree directory is deleted (remove, purge, merge --remove)
+ * - `post-merge`: after `wt merge`, in the worktree that was merged into
+ * - `post-open`: after `wt open`, in the opened worktree
+ */
+export const HOOK_NAMES = ["setup-worktree", "teardown-worktree", "post-merge", "post-open"] as const;
+
+export type HookName = typeof HOOK_NAMES[number];
+
+/**
+ * Suffixes of the OS-specific variants of each hook key, as in Cursor's
+ * worktrees.json (e.g. `setup-worktree-unix`, `setup-worktree-windows`)
+ */
+const HOOK_OS_SUFFIXES = ["unix", "windows"] as const;
+
+/**
+ * Every hook key a setup file may contain, including OS-specific variants
+ */
+const HOOK_KEYS = HOOK_NAMES.flatMap(hook => [hook, ...HOOK_OS_SUFFIXES.map(suffix => `${hook}-${suffix}`)]);
+
+/**
+ * The hook key variant for the current OS
+ */
+function getOsHookKey(hook: HookName): string {
+    return `${hook}-${process.platform === "win32" ? "windows" : "unix"}`;
+}
+
+const HOOK_LABELS: Record<HookName, string> = {
+    "setup-worktree": "Setup",
+    "teardown-worktree": "Teardown",
+    "post-merge": "Post-merge",
+    "post-open": "Post-open",
+};
+
+/**
+ * What to do when a setup command fails
+ *
+ * - `continue`: report the failure and run the remaining commands (default)
+ * - `stop`: skip the remaining commands, keep the worktree and exit non-zero
+ * - `rollback`: skip the remaining commands, remove the new worktree and exit non-zero
+ */
+export const SETUP_FAILURE_MODES = ["continue", "stop", "rollback"] as const;
+
+export type SetupFailureMode = typeof SETUP_FAILURE_MODES[number];
+
+/**
+ * Check whether a value is a valid setup failure mode
+ */
+export function isSetupFailureMode(value: unknown): value is SetupFailureMode {
+    return SETUP_FAILURE_MODES.includes(value as SetupFailureMode);
+}
+
+/**
+ * Contents of a setup file in the object format
+ */
+export type WorktreeSetupData = {
+    [hook in HookName]?: SetupStep[];
+} & {
+    /** Glob patterns of files to copy from the main worktree into new worktrees */
+    copy?: string[];
+    /** Glob patterns of files to symlink from the main worktree into new worktrees */
+    symlink?: string[];
+    /** What to do when a setup command fails */
+    onFailure?: SetupFailureMode;
+    /** Detect and run the package managers when `--install` is not given */
+    autoInstall?: boolean;
+    /** Dependency directories to clone from the main worktree before installing: true for node_modules */
+    seedDependencies?: boolean | string[];
+    /** Port block to assign to each new worktree: true, a port count, or detailed settings */
+    ports?: boolean | number | Partial<PortsConfig>;
+    /** Named lists of setup commands, run after `setup-worktree` when selected */
+    profiles?: Record<string, SetupStep[]>;
+    /** Profile to run when none is selected with `--profile` */
+    defaultProfile?: string;
     [key: string]: unknown;
+};
+
+/**
+ * Keys in worktrees.json that hold file patterns rather than commands
+ */
+const FILE_KEYS = ["copy", "symlink"] as const;
+
+/**
+ * Keys in worktrees.json that configure worktree creation without commands or file patterns
+ */
+const SETTING_KEYS = ["ports", "autoInstall", "seedDependencies"] as const;
+
+/**
+ * Keys in worktrees.json that define named setup profiles
+ */
+const PROFILE_KEYS = ["profiles", "defaultProfile"] as const;
+
+/**
+ * Directories seeded by `"seedDependencies": true`
+ */
+const DEFAULT_SEED_DIRECTORIES = ["node_modules"];
+
+/**
+ * Setup file locations relative to the repository root, in lookup order
+ *
+ * JSON files may contain comments and trailing commas.
+ */
+export const SETUP_FILE_PATHS = [join(".cursor", "worktrees.json"), "worktrees.json", "worktrees.yaml", "worktrees.yml"];
+
+/**
+ * A problem found in a setup file
+ */
+export interface SetupFileProblem {
+    /** Errors stop the file from being used; warnings are only reported */
+    severity: "error" | "warning";
+    message: string;
+    /** Where in the file the problem is, when known */
+    position: SourcePosition | null;
 }
 
 /**
- * Load and parse setup commands from worktrees.json
+ * Check parsed setup file data against the setup file schema
+ *
+ * The accepted shape is described for editors in `worktrees.schema.json`.
+ * Every problem is collected rather than only the first.
  */
-async function loadSetupCommands(repoRoot: string): Promise<{ commands: string[]; filePath: string } | null> {
-    // Check for .cursor/worktrees.json first
-    const cursorSetupPath = join(repoRoot, ".cursor", "worktrees.json");
-    try {
-        await stat(cursorSetupPath);
-        const content = await readFile(cursorSetupPath, "utf-8");
-        const data = JSON.parse(content) as WorktreeSetupData | string[];
+function checkSetupData(data: unknown): Array<{ path: ValuePath; severity: SetupFileProblem["severity"]; message: string }> {
+    const problems: Array<{ path: ValuePath; severity: SetupFileProblem["severity"]; message: string }> = [];
+    const error = (path: ValuePath, message: string) => problems.push({ path, severity: "error", message });
 
-        let commands: string[] = [];
-        if (Array.isArray(data)) {
-            commands = data;
-        } else if (data && typeof data === 'object' && Array.isArray(data["setup-worktree"])) {
-            commands = data["setup-worktree"];
+    const checkStep = (path: ValuePath, step: unknown) => {
+        if (typeof step === "string") {
+            const problem = findTemplateError([step]);
+            if (problem) {
+                error(path, problem);
+            }
+            return;
+        }
+        if (!step || typeof step !== "object" || Array.isArray(step)) {
+            error(path, `Every step must be a command string or an object with "run"`);
+            return;
         }
 
-        if (commands.length > 0) {
-            return { commands, filePath: cursorSetupPath };
+        const { run, when } = step as { run?: unknown; when?: unknown };
+        for (const key of Object.keys(step)) {
+            if (!STEP_KEYS.includes(key as never)) {
+                error([...path, key], `Unknown step key "${key}"; expected one of: ${STEP_KEYS.join(", ")}`);
+            }
         }
-    } catch {
-        // Not found, try fallback
+        if (typeof run !== "string") {
+            error(path, `"run" must be a command string`);
+        } else {
+            const problem = findTemplateError([run]);
+            if (problem) {
+                error([...path, "run"], problem);
+            }
+        }
+
+        const { timeout, retries, cwd, parallel } = step as { timeout?: unknown; retries?: unknown; cwd?: unknown; parallel?: unknown };
+        if (timeout !== undefined && !(typeof timeout === "number" && timeout > 0)) {
+            error([...path, "timeout"], `"timeout" must be a positive number of seconds`);
+        }
+        if (retries !== undefined && !(Number.isInteger(retries) && (retries as number) >= 0)) {
+            error([...path, "retries"], `"retries" must be a non-negative integer`);
+        }
+        if (cwd !== undefined && !(typeof cwd === "string" && isRelativePattern(cwd))) {
+            error([...path, "cwd"], `"cwd" must be a directory relative to the worktree and not contain ".."`);
+        }
+        if (parallel !== undefined && !(typeof parallel === "string" && parallel.length > 0)) {
+            error([...path, "parallel"], `"parallel" must be the name of a group`);
+        }
+
+        if (when === undefined) return;
+        if (!when || typeof when !== "object" || Array.isArray(when)) {
+            error([...path, "when"], `"when" must be an object with ${CONDITION_KEYS.join(" and/or ")}`);
+            return;
+        }
+        for (const [key, files] of Object.entries(when)) {
+            if (!CONDITION_KEYS.includes(key as never)) {
+                error([...path, "when", key], `Unknown condition "${key}"; expected one of: ${CONDITION_KEYS.join(", ")}`);
+            } else if (![files].flat().every(file => typeof file === "string" && isRelativePattern(file)) || [files].flat().length === 0) {
+                error([...path, "when", key], `"${key}" must be a path or an array of paths relative to the worktree`);
+            }
+        }
+    };
+
+    const checkCommands = (path: ValuePath, commands: unknown) => {
+        if (!Array.isArray(commands)) {
+            error(path, `"${path.join(".") || "setup-worktree"}" must be an array of commands`);
+            return;
+        }
+        commands.forEach((step, index) => checkStep([...path, index], step));
+    };
+
+    if (Array.isArray(data)) {
+        checkCommands([], data);
+        return problems;
+    }
+    if (!data || typeof data !== "object") {
+        error([], `Expected an array of commands or an object with hook keys (${HOOK_NAMES.join(", ")})`);
+        return problems;
+    }
+
+    const setup = data as WorktreeSetupData;
+    for (const key of Object.keys(setup)) {
+        if (key !== "$schema" && key !== "onFailure" && ![...HOOK_KEYS, ...FILE_KEYS, ...SETTING_KEYS, ...PROFILE_KEYS].includes(key as never)) {
+            problems.push({ path: [key], severity: "warning", message: `Unknown key "${key}" is ignored` });
+        }
+    }
+
+    if ("$schema" in setup && typeof setup.$schema !== "string") {
+        error(["$schema"], `"$schema" must be a string`);
+    }
+
+    for (const key of HOOK_KEYS) {
+        if (key in setup) {
+            checkCommands([key], setup[key]);
+        }
+    }
+
+    const profiles = setup.profiles;
+    if ("profiles" in setup) {
+        if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+            error(["profiles"], `"profiles" must be an object mapping profile names to arrays of commands`);
+        } else {
+            for (const [name, commands] of Object.entries(profiles)) {
+                checkCommands(["profiles", name], commands);
+            }
+        }
+    }
+    if ("defaultProfile" in setup) {
+        const name = setup.defaultProfile;
+        const names = profiles && typeof profiles === "object" ? Object.keys(profiles) : [];
+        if (typeof name !== "string" || !names.includes(name)) {
+            error(["defaultProfile"], `"defaultProfile" must name one of the profiles (${names.join(", ") || "none defined"})`);
+        }
+    }
+
+    for (const key of FILE_KEYS) {
+        if (!(key in setup)) continue;
+        const patterns = setup[key];
+        if (!Array.isArray(patterns)) {
+            error([key], `"${key}" must be an array of strings`);
+            continue;
+        }
+        patterns.forEach((pattern, index) => {
+            if (typeof pattern !== "string") {
+                error([key, index], `"${key}" must be an array of strings`);
+            } else if (!isRelativePattern(pattern)) {
+                error([key, index], `"${key}" pattern "${pattern}" must be relative to the main worktree and not contain ".."`);
+            }
+        });
+    }
+
+    if ("onFailure" in setup && !isSetupFailureMode(setup.onFailure)) {
+        error(["onFailure"], `"onFailure" must be one of: ${SETUP_FAILURE_MODES.join(", ")}`);
+    }
+
+    if ("autoInstall" in setup && typeof setup.autoInstall !== "boolean") {
+        error(["autoInstall"], `"autoInstall" must be true or false`);
+    }
+
+    if ("seedDependencies" in setup) {
+        const seed = setup.seedDependencies;
+        if (typeof seed !== "boolean" && !(Array.isArray(seed) && seed.every(dir => typeof dir === "string" && isRelativePattern(dir)))) {
+            error(["seedDependencies"], `"seedDependencies" must be true, false or an array of directories relative to the worktree`);
+        }
+    }
+
+    if ("ports" in setup) {
+        const parsed = parsePortsConfig(setup.ports);
+        if (typeof parsed === "string") {
+            error(["ports"], `"ports": ${parsed}`);
+        }
+    }
+
+    const configurable = [...HOOK_NAMES, ...FILE_KEYS, ...SETTING_KEYS, "profiles"];
+    if (![...configurable, ...HOOK_KEYS].some(key => key in setup)) {
+        error([], `Nothing configured; expected one of: ${configurable.join(", ")}`);
     }
+    return problems;
+}
 
-    // Check for worktrees.json
-    const fallbackSetupPath = join(repoRoot, "worktrees.json");
+/**
+ * Parse a setup file and check it against the schema
+ *
+ * @param filePath - Path to a worktrees.json or worktrees.yaml file
+ * @returns The parsed data (null if it couldn't be parsed) and every problem found
+ */
+async function inspectSetupFile(filePath: string): Promise<{ data: WorktreeSetupData | SetupStep[] | null; problems: SetupFileProblem[] }> {
+    let parsed: ParsedSetupFile;
     try {
-        await stat(fallbackSetupPath);
-        const content = await readFile(fallbackSetupPath, "utf-8");
-        const data = JSON.parse(content) as WorktreeSetupData | string[];
+        parsed = parseSetupFileText(filePath, await readFile(filePath, "utf-8"));
+    } catch (error) {
+        if (error instanceof SetupFileSyntaxError) {
+            return { data: null, problems: [{ severity: "error", message: error.message, position: error.position }] };
+        }
+        throw error;
+    }
 
-        let commands: string[] = [];
-        if (Array.isArray(data)) {
-            commands = data;
-        } else if (data && typeof data === 'object' && Array.isArray(data["setup-worktree"])) {
-            commands = data["setup-worktree"];
+    const problems = checkSetupData(parsed.data).map(({ path, severity, message }) => ({
+        severity,
+        message,
+        position: parsed.locate(path),
+    }));
+    // Report in file order
+    const order = (problem: SetupFileProblem) => (problem.position?.line ?? 0) * 1e6 + (problem.position?.column ?? 0);
+    problems.sort((a, b) => order(a) - order(b));
+    return { data: parsed.data as WorktreeSetupData | SetupStep[], problems };
+}
+
+/**
+ * Lint a setup file: parse it and check it against the schema
+ *
+ * @param filePath - Path to a worktrees.json or worktrees.yaml file
+ * @returns Every problem found, errors and warnings; empty if the file is fine
+ */
+export async function lintSetupFile(filePath: string): Promise<SetupFileProblem[]> {
+    return (await inspectSetupFile(filePath)).problems;
+}
+
+/**
+ * Format a setup file problem as `file:line:column: message`
+ */
+export function formatSetupFileProblem(filePath: string, problem: SetupFileProblem): string {
+    const location = problem.position ? `${filePath}:${problem.position.line}:${problem.position.column}` : filePath;
+    return `${location}: ${problem.message}`;
+}
+
+/**
+ * Check that a setup file parses and matches the schema
+ *
+ * @param filePath - Path to a worktrees.json or worktrees.yaml file
+ * @returns The first error, or null if the file is valid (warnings are ignored)
+ */
+export async function validateSetupFile(filePath: string): Promise<SetupFileProblem | null> {
+    return (await lintSetupFile(filePath)).find(problem => problem.severity === "error") ?? null;
+}
+
+/**
+ * Check hook commands for unknown `{{placeholders}}`
+ */
+function findTemplateError(commands: string[]): string | null {
+    try {
+        commands.forEach(command => renderCommandTemplate(command, {}));
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Extract the steps for a hook from parsed setup file data
+ *
+ * A top-level array is shorthand for `setup-worktree`. The variant of the
+ * hook key for the current OS (`-unix` or `-windows`) takes precedence over
+ * the plain key, as in Cursor.
+ */
+function getHookSteps(data: WorktreeSetupData | SetupStep[], hook: HookName): HookStep[] {
+    if (Array.isArray(data)) {
+        return hook === "setup-worktree" ? data.map(toHookStep) : [];
+    }
+    const steps = data[getOsHookKey(hook)] ?? data[hook];
+    return Array.isArray(steps) ? steps.map(toHookStep) : [];
+}
+
+/**
+ * Check that a copy/symlink pattern stays inside the main worktree
+ */
+export function isRelativePattern(pattern: string): boolean {
+    return pattern.length > 0
+        && !isAbsolute(pattern)
+        && !pattern.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Read the parsed contents of each setup file that exists, in lookup order
+ *
+ * @throws If a setup file can't be parsed or doesn't match the schema, so a
+ *   typo doesn't silently skip setup; the message points at the line
+ */
+async function readSetupFiles(repoRoot: string): Promise<Array<{ filePath: string; data: WorktreeSetupData | SetupStep[] }>> {
+    const files: Array<{ filePath: string; data: WorktreeSetupData | SetupStep[] }> = [];
+    for (const relativePath of SETUP_FILE_PATHS) {
+        const filePath = join(repoRoot, relativePath);
+        try {
+            await stat(filePath);
+        } catch {
+            continue;
         }
 
-        if (commands.length > 0) {
-            return { commands, filePath: fallbackSetupPath };
+        const { data, problems } = await inspectSetupFile(filePath);
+        const error = problems.find(problem => problem.severity === "error");
+        if (error || data === null) {
+            throw new Error(`Invalid setup file ${formatSetupFileProblem(filePath, error!)} (check it with 'wt setup validate')`);
+        }
+        files.push({ filePath, data });
+    }
+    return files;
+}
+
+/**
+ * List the setup profiles defined in a setup file
+ */
+function getProfiles(data: WorktreeSetupData | SetupStep[]): Record<string, SetupStep[]> {
+    if (Array.isArray(data) || !data.profiles || typeof data.profiles !== "object") {
+        return {};
+    }
+    return data.profiles;
+}
+
+/**
+ * Load the commands for a hook from .cursor/worktrees.json or worktrees.json
+ *
+ * The first file that defines commands for the hook wins, and its
+ * `onFailure` setting applies to them (`setup-worktree` only). For `setup-worktree`, the commands of
+ * the selected profile (or the file's `defaultProfile`) run after the
+ * file's `setup-worktree` commands.
+ *
+ * @param profile - Profile selected with `--profile`
+ * @throws If the selected profile isn't defined in any setup file
+ */
+async function loadHookCommands(
+    repoRoot: string,
+    hook: HookName,
+    profile?: string
+): Promise<{ steps: HookStep[]; filePath: string; onFailure?: SetupFailureMode; profile?: string } | null> {
+    const files = await readSetupFiles(repoRoot);
+
+    if (hook === "setup-worktree" && profile) {
+        const file = files.find(({ data }) => Object.hasOwn(getProfiles(data), profile));
+        if (!file) {
+            const available = [...new Set(files.flatMap(({ data }) => Object.keys(getProfiles(data))))];
+            throw new Error(`Unknown setup profile "${profile}". ${available.length > 0 ? `Available: ${available.join(", ")}` : "No profiles are defined in the setup file."}`);
+        }
+        files.splice(0, files.length, file);
+    }
+
+    for (const { filePath, data } of files) {
+        const steps = getHookSteps(data, hook);
+        const selected = hook === "setup-worktree" && !Array.isArray(data) ? profile ?? data.defaultProfile : undefined;
+        if (selected) {
+            steps.push(...(getProfiles(data)[selected] ?? []).map(toHookStep));
+        }
+
+        if (steps.length > 0) {
+            const onFailure = Array.isArray(data) || !isSetupFailureMode(data.onFailure) ? undefined : data.onFailure;
+            return { steps, filePath, onFailure, ...(selected && { profile: selected }) };
         }
-    } catch {
-        // Not found
     }
 
     return null;
 }
 
 /**
- * Execute setup commands with user confirmation (SECURE)
+ * Files to bring over from the main worktree into new worktrees
+ */
+export interface WorktreeFilesConfig {
+    /** Glob patterns of files to copy */
+    copy: string[];
+    /** Glob patterns of files to symlink */
+    symlink: string[];
+    /** Setup file the patterns were loaded from */
+    filePath: string;
+}
+
+/**
+ * Load the `copy` / `symlink` patterns from .cursor/worktrees.json or worktrees.json
  *
- * This is the centralized, secure function for loading and executing setup commands.
- * It ensures commands are displayed to the user and requires confirmation before execution,
- * unless the --trust flag is set.
+ * The first file that defines either key wins. Patterns that would reach
+ * outside the main worktree are dropped.
  *
- * SECURITY: This function implements the trust model - all commands are shown to the user
- * and require confirmation before execution. Use --trust flag in CI environments only.
+ * @param repoRoot - Repository root to look for setup files in
+ * @returns The configured patterns, or null if none are configured
+ */
+export async function loadWorktreeFilesConfig(repoRoot: string): Promise<WorktreeFilesConfig | null> {
+    for (const { filePath, data } of await readSetupFiles(repoRoot)) {
+        if (Array.isArray(data) || !data || typeof data !== "object") {
+            continue;
+        }
+
+        const patterns = (key: typeof FILE_KEYS[number]) => {
+            const values = data[key];
+            return Array.isArray(values)
+                ? values.filter((value): value is string => typeof value === "string" && isRelativePattern(value))
+                : [];
+        };
+
+        const config = { copy: patterns("copy"), symlink: patterns("symlink"), filePath };
+        if (config.copy.length > 0 || config.symlink.length > 0) {
+            return config;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check whether `autoInstall` is enabled in .cursor/worktrees.json or worktrees.json
+ *
+ * The first file that defines the key wins.
+ */
+export async function loadAutoInstall(repoRoot: string): Promise<boolean> {
+    for (const { data } of await readSetupFiles(repoRoot)) {
+        if (!Array.isArray(data) && data && typeof data === "object" && typeof data.autoInstall === "boolean") {
+            return data.autoInstall;
+        }
+    }
+    return false;
+}
+
+/**
+ * Load the `seedDependencies` directories from .cursor/worktrees.json or worktrees.json
+ *
+ * The first file that defines the key wins.
+ *
+ * @returns Directories relative to the worktree, empty if seeding is disabled
+ */
+export async function loadSeedDirectories(repoRoot: string): Promise<string[]> {
+    for (const { data } of await readSetupFiles(repoRoot)) {
+        if (Array.isArray(data) || !data || typeof data !== "object" || !("seedDependencies" in data)) {
+            continue;
+        }
+        const seed = data.seedDependencies;
+        if (seed === true) {
+            return [...DEFAULT_SEED_DIRECTORIES];
+        }
+        return Array.isArray(seed)
+            ? seed.filter((dir): dir is string => typeof dir === "string" && isRelativePattern(dir))
+            : [];
+    }
+    return [];
+}
+
+/**
+ * Interpret the `ports` value of a setup file
+ *
+ * @returns The settings, null if ports are disabled, or a description of the problem
+ */
+export function parsePortsConfig(value: unknown): PortsConfig | null | string {
+    if (value === undefined || value === false) {
+        return null;
+    }
+    if (value === true) {
+        return { ...DEFAULT_PORTS_CONFIG };
+    }
+
+    const settings = typeof value === "number" ? { count: value } : value;
+    if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+        return "expected true, a port count, or an object with count/start/envFile";
+    }
+
+    const { count = DEFAULT_PORTS_CONFIG.count, start = DEFAULT_PORTS_CONFIG.start, envFile } = settings as Partial<PortsConfig>;
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+        return "count must be an integer from 1 to 100";
+    }
+    if (!Number.isInteger(start) || start < 1024 || start + count - 1 > 65535) {
+        return "start must be an integer from 1024 to 65535";
+    }
+    if (envFile !== undefined && (typeof envFile !== "string" || !isRelativePattern(envFile))) {
+        return "envFile must be a path relative to the worktree";
+    }
+    return { count, start, ...(envFile !== undefined && { envFile }) };
+}
+
+/**
+ * Load the `ports` settings from .cursor/worktrees.json or worktrees.json
+ *
+ * The first file that defines the key wins.
+ *
+ * @returns The settings, or null if port allocation is not configured or invalid
+ */
+export async function loadPortsConfig(repoRoot: string): Promise<PortsConfig | null> {
+    for (const { data } of await readSetupFiles(repoRoot)) {
+        if (Array.isArray(data) || !data || typeof data !== "object" || !("ports" in data)) {
+            continue;
+        }
+        const parsed = parsePortsConfig(data.ports);
+        return typeof parsed === "string" ? null : parsed;
+    }
+    return null;
+}
+
+/**
+ * Assign a port block to a newly created worktree, if `ports` is configured
+ *
+ * Runs as a step of an atomic worktree operation: if a later step fails, the
+ * ports are released again. With `envFile` set, the ports are also written to
+ * that file in the worktree.
+ *
+ * @param atomic - The operation the worktree was created with
+ * @param worktreePath - The new worktree
+ * @param branch - Branch of the worktree, recorded for `wt ports`
+ */
+export async function reserveWorktreePorts(atomic: AtomicWorktreeOperation, worktreePath: string, branch: string): Promise<void> {
+    const repoRoot = await getRepoRoot();
+    const config = repoRoot ? await loadPortsConfig(repoRoot) : null;
+    if (!repoRoot || !config) {
+        return;
+    }
+
+    let created = false;
+    await atomic.execute(
+        async () => {
+            const result = await assignPorts(worktreePath, { repo: repoRoot, branch }, config);
+            created = result.created;
+            console.log(chalk.blue(`Assigned ${describePortBlock(result.assignment)} (WT_PORT=${result.assignment.base}).`));
+
+            if (config.envFile) {
+                if (await writePortEnvFile(join(worktreePath, config.envFile), result.assignment)) {
+                    console.log(chalk.yellow(`${config.envFile} was a symlink; replaced it with a copy so the linked file is left unchanged.`));
+                }
+                console.log(chalk.gray(`Wrote WT_PORT variables to ${config.envFile}.`));
+            }
+        },
+        async () => {
+            if (created) {
+                await releasePorts(worktreePath);
+            }
+        }
+    );
+}
+
+/**
+ * Options for running hook commands
+ */
+export interface HookRunOptions {
+    /** Run without asking for confirmation */
+    trust?: boolean;
+    /** What to do when a command fails (overrides `onFailure` in the setup file) */
+    onFailure?: SetupFailureMode;
+    /** Operation that created the worktree, rolled back by the caller on `rollback` */
+    atomic?: AtomicWorktreeOperation;
+    /** Values for the hook environment that can't be derived from the worktree */
+    context?: HookContext;
+    /** Setup profile to run (`setup-worktree` only; defaults to the file's `defaultProfile`) */
+    profile?: string;
+}
+
+/**
+ * Values passed to hook commands that are only known to the calling command
+ */
+export interface HookContext {
+    /** Branch of the worktree (derived from its HEAD when omitted) */
+    branch?: string;
+    /** PR/MR number, when invoked via `wt pr` */
+    prNumber?: string;
+}
+
+/**
+ * `{{placeholder}}` names usable in hook commands and the environment variables they map to
+ */
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+    root: "ROOT_WORKTREE_PATH",
+    path: "WORKTREE_PATH",
+    branch: "WORKTREE_BRANCH",
+    name: "WORKTREE_NAME",
+    repo: "REPO_NAME",
+    pr: "PR_NUMBER",
+    port: "WT_PORT",
+};
+
+/**
+ * Build the environment variables describing a worktree for hook commands
+ *
+ * @param repoRoot - Repository root (ROOT_WORKTREE_PATH)
+ * @param worktreePath - Worktree the hook runs for
+ * @param context - Branch and PR number, when known to the caller
+ */
+export async function getHookEnvironment(
+    repoRoot: string,
+    worktreePath: string,
+    context: HookContext = {}
+): Promise<Record<string, string>> {
+    let branch = context.branch;
+    if (branch === undefined) {
+        const { stdout, exitCode } = await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], { cwd: worktreePath, reject: false });
+        branch = exitCode === 0 ? stdout.trim() : "";
+    }
+
+    const env: Record<string, string> = {
+        ROOT_WORKTREE_PATH: repoRoot,
+        WORKTREE_PATH: worktreePath,
+        WORKTREE_BRANCH: branch,
+        // Detached worktrees have no branch to derive a name from
+        WORKTREE_NAME: branch ? resolveWorktreeName(branch) : basename(worktreePath),
+        REPO_NAME: await getRepoName(repoRoot),
+    };
+    if (context.prNumber !== undefined) {
+        env.PR_NUMBER = context.prNumber;
+    }
+
+    const ports = await findPortAssignment(worktreePath);
+    if (ports) {
+        Object.assign(env, getPortVariables(ports));
+    }
+    return env;
+}
+
+/**
+ * Placeholder values a POSIX shell reads as plain text, inserted as they are
+ */
+const SAFE_TEMPLATE_VALUE = /^[\w./:@+=,-]*$/;
+
+/**
+ * Characters cmd.exe still treats as syntax after expanding a value into the command
+ */
+const CMD_SYNTAX = /[&|<>^%"()!\r\n]/;
+
+/**
+ * Replace `{{placeholder}}`s in a hook command
+ *
+ * Placeholders are the short names in TEMPLATE_VARIABLES (e.g. `{{branch}}`)
+ * or the environment variable names themselves (e.g. `{{WORKTREE_BRANCH}}`).
+ * `{{WT_PORT_<n>}}` refers to the n-th assigned port. Known variables without
+ * a value (such as `{{pr}}` outside `wt pr`) render as an empty string.
+ *
+ * Values can come from others (a PR's branch name is chosen by its author),
+ * so a value with shell syntax in it becomes a quoted reference to its
+ * environment variable (e.g. `"$WORKTREE_BRANCH"`), which the shell never
+ * parses as code.
+ *
+ * @param platform - Platform whose shell runs the command (defaults to the current one)
+ * @throws If the command uses an unknown placeholder, or on Windows, where cmd.exe
+ *   expands variables before parsing, if a value contains cmd.exe syntax
+ */
+export function renderCommandTemplate(command: string, env: Record<string, string>, platform: NodeJS.Platform = process.platform): string {
+    return command.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, key: string) => {
+        const name = TEMPLATE_VARIABLES[key] ?? key;
+        if (!Object.values(TEMPLATE_VARIABLES).includes(name) && !/^WT_PORT_\d+$/.test(name)) {
+            throw new Error(`Unknown placeholder ${placeholder} in "${command}". Available: ${Object.keys(TEMPLATE_VARIABLES).map(k => `{{${k}}}`).join(", ")}`);
+        }
+
+        const value = env[name] ?? "";
+        if (platform === "win32") {
+            if (CMD_SYNTAX.test(value)) {
+                throw new Error(`Can't safely insert ${placeholder} into "${command}": its value ${JSON.stringify(value)} contains characters cmd.exe would interpret`);
+            }
+            return value;
+        }
+        return SAFE_TEMPLATE_VALUE.test(value) ? value : `"$${name}"`;
+    });
+}
+
+/**
+ * Commands a hook would run, as resolved by planHookCommands()
+ */
+export interface HookPlan {
+    /** Setup file the commands come from */
+    filePath: string;
+    /** Selected setup profile, if any */
+    profile?: string;
+    /** What happens when a command fails */
+    onFailure: SetupFailureMode;
+    /** Commands with `{{placeholders}}` replaced, the condition each runs under and how it is run */
+    steps: Array<{ command: string; condition?: string; options?: string }>;
+    /** Variables the commands would receive */
+    env: Record<string, string>;
+}
+
+/**
+ * Resolve the commands and environment of a hook without running anything
  *
+ * @param worktreePath - Worktree the hook would run in (need not exist yet)
+ * @param options - Profile, failure mode and context as for runHookCommands()
+ * @param ports - Ports the worktree would be assigned, when not assigned yet
+ * @returns The plan, or null if no setup file defines commands for the hook
+ */
+export async function planHookCommands(
+    hook: HookName,
+    worktreePath: string,
+    options: Pick<HookRunOptions, "onFailure" | "context" | "profile"> = {},
+    ports: Pick<PortAssignment, "base" | "count"> | null = null
+): Promise<HookPlan | null> {
+    const repoRoot = await getRepoRoot();
+    const hookResult = repoRoot ? await loadHookCommands(repoRoot, hook, options.profile) : null;
+    if (!repoRoot || !hookResult) {
+        return null;
+    }
+
+    const env = await getHookEnvironment(repoRoot, worktreePath, options.context);
+    if (ports) {
+        Object.assign(env, getPortVariables(ports));
+    }
+    return {
+        filePath: hookResult.filePath,
+        ...(hookResult.profile && { profile: hookResult.profile }),
+        onFailure: options.onFailure ?? hookResult.onFailure ?? "continue",
+        steps: hookResult.steps.map(step => ({
+            command: renderCommandTemplate(step.run, env),
+            ...(step.when && { condition: describeStepCondition(step.when) }),
+            ...(describeStepOptions(step) && { options: describeStepOptions(step) }),
+        })),
+        env,
+    };
+}
+
+/**
+ * Run the commands configured for a lifecycle hook, with user confirmation (SECURE)
+ *
+ * Commands are shown to the user and require confirmation before execution,
+ * unless the --trust flag is set or the setup file is unchanged since the
+ * user last approved this hook's commands, for the same profile (see utils/trust.ts). They run in `worktreePath` with
+ * the variables from getHookEnvironment() set, and `{{placeholders}}` in the
+ * commands are replaced with the same values.
+ *
+ * Steps run with their `timeout`, `retries`, `cwd` and `parallel` options
+ * (see utils/steps.ts). By default a failing command is reported and the
+ * remaining commands still run. For `setup-worktree` with `onFailure` set to
+ * `stop` or `rollback`, no further steps start after a failure and the hook throws;
+ * for `stop` the given atomic operation is committed first so the caller's
+ * rollback keeps the worktree in place for inspection.
+ *
+ * An invalid setup file makes `setup-worktree` throw; the other hooks warn
+ * and skip their commands, so e.g. `wt remove` still removes the worktree.
+ *
+ * @param hook - Hook to run
  * @param worktreePath - Path to the worktree where commands should be executed
  * @param options - Execution options (trust flag bypasses confirmation)
- * @returns true if setup commands were found and executed, false if no setup file exists
+ * @returns true if hook commands were found and executed, false otherwise
  */
-export async function runSetupScriptsSecure(
+export async function runHookCommands(
+    hook: HookName,
     worktreePath: string,
-    options: { trust?: boolean } = {}
+    options: HookRunOptions = {}
 ): Promise<boolean> {
+    const label = HOOK_LABELS[hook];
     const repoRoot = await getRepoRoot();
     if (!repoRoot) {
-        console.warn(chalk.yellow("Could not determine repository root. Skipping setup scripts."));
+        console.warn(chalk.yellow(`Could not determine repository root. Skipping ${label.toLowerCase()} commands.`));
         return false;
     }
 
-    const setupResult = await loadSetupCommands(repoRoot);
+    let hookResult: Awaited<ReturnType<typeof loadHookCommands>>;
+    try {
+        hookResult = await loadHookCommands(repoRoot, hook, options.profile);
+    } catch (error) {
+        // A broken setup file stops worktree creation, but not the command a later hook follows
+        if (hook === "setup-worktree") {
+            throw error;
+        }
+        console.warn(chalk.yellow(`Skipping ${label.toLowerCase()} commands: ${error instanceof Error ? error.message : String(error)}`));
+        return false;
+    }
 
-    if (!setupResult) {
+    if (!hookResult) {
         return false;
     }
 
-    console.log(chalk.blue(`Found setup file: ${setupResult.filePath}`));
+    const profileNote = hookResult.profile ? ` (profile "${hookResult.profile}")` : "";
+    console.log(chalk.blue(`Found ${hook} commands in: ${hookResult.filePath}${profileNote}`));
 
-    // Show commands and ask for confirmation (unless --trust flag is set)
-    const shouldRun = await confirmCommands(setupResult.commands, {
-        title: "The following setup commands will be executed:",
+    const hookEnv = await getHookEnvironment(repoRoot, worktreePath, options.context);
+    const reference = hook === "post-merge" ? "merge" : "main";
+    const allSteps: Array<{ step: HookStep; command: string; runs: boolean }> = [];
+    for (const step of hookResult.steps) {
+        const runs = await evaluateStepCondition(step.when, worktreePath, reference);
+        if (!runs) {
+            console.log(chalk.gray(`Skipping: ${step.run} (runs when ${describeStepCondition(step.when!)})`));
+        }
+        allSteps.push({ step, command: renderCommandTemplate(step.run, hookEnv), runs });
+    }
+
+    const steps = allSteps.filter(({ runs }) => runs).map(({ step }) => step);
+    const commands = allSteps.filter(({ runs }) => runs).map(({ command }) => command);
+    if (steps.length === 0) {
+        console.log(chalk.gray(`No ${label.toLowerCase()} commands to run.`));
+        return true;
+    }
+
+    // Show commands and ask for confirmation (unless --trust is set or this hook and profile were approved before).
+    // Skipped steps are listed too: the approval also covers them once their condition holds.
+    const scope = hookResult.profile ? `${hook}:${hookResult.profile}` : hook;
+    const shown = allSteps.map(({ step, command, runs }) => step.when
+        ? `${command}  # runs when ${describeStepCondition(step.when)}${runs ? "" : ", skipped now"}`
+        : command);
+    const shouldRun = await confirmTrustedCommands(repoRoot, hookResult.filePath, scope, shown, {
+        title: `The following ${label.toLowerCase()} commands${profileNote} will be executed:`,
         trust: options.trust,
     });
 
     if (!shouldRun) {
-        console.log(chalk.yellow("Setup commands skipped."));
+        console.log(chalk.yellow(`${label} commands skipped.`));
         return false;
     }
 
-    // Execute commands
-    const env = { ...process.env, ROOT_WORKTREE_PATH: repoRoot };
-    for (const command of setupResult.commands) {
-        console.log(chalk.gray(`Executing: ${command}`));
-        try {
-            await execa(command, { shell: true, cwd: worktreePath, env, stdio: "inherit" });
-        } catch (cmdError: unknown) {
-            if (cmdError instanceof Error) {
-                console.error(chalk.red(`Setup command failed: ${command}`), cmdError.message);
-            } else {
-                console.error(chalk.red(`Setup command failed: ${command}`), cmdError);
-            }
-            // Continue with other commands
+    // Stopping and rolling back only make sense while a worktree is being created
+    const onFailure = hook === "setup-worktree" ? options.onFailure ?? hookResult.onFailure ?? "continue" : "continue";
+    const env = { ...process.env, ...hookEnv };
+
+    const results = await runHookSteps(
+        steps.map((step, index) => ({ step, command: commands[index] })),
+        worktreePath,
+        env,
+        { stopOnFailure: onFailure !== "continue" }
+    );
+    const failed = results.filter(result => !result.ok);
+
+    if (failed.length > 0 && onFailure !== "continue") {
+        if (onFailure === "stop") {
+            // Nothing to undo: the worktree stays so the failure can be inspected
+            (options.atomic ?? new AtomicWorktreeOperation()).commit();
+            console.log(chalk.yellow(`Keeping worktree at ${worktreePath} for inspection.`));
         }
+        throw new Error(`${label} command failed (onFailure: ${onFailure}): ${failed.map(result => `${result.command}: ${result.error}`).join("; ")}`);
+    }
+
+    if (failed.length > 0) {
+        console.log(chalk.yellow(`${label} commands completed with ${failed.length} of ${commands.length} failed.`));
+    } else {
+        console.log(chalk.green(`${label} commands completed.`));
     }
-    console.log(chalk.green("Setup commands completed."));
     return true;
 }
 
+/**
+ * Execute setup commands with user confirmation (SECURE)
+ *
+ * This is the centralized, secure function for loading and executing setup commands.
+ * It ensures commands are displayed to the user and requires confirmation before execution,
+ * unless the --trust flag is set.
+ *
+ * SECURITY: This function implements the trust model - all commands are shown to the user
+ * and require confirmation before execution. Use --trust flag in CI environments only.
+ *
+ * @param worktreePath - Path to the worktree where commands should be executed
+ * @param options - Execution options (trust flag bypasses confirmation, onFailure controls error handling)
+ * @returns true if setup commands were found and executed, false if no setup file exists
+ */
+export async function runSetupScriptsSecure(
+    worktreePath: string,
+    options: HookRunOptions = {}
+): Promise<boolean> {
+    return runHookCommands("setup-worktree", worktreePath, options);
+}
+
+/**
+ * Check that a setup profile selected with `--profile` exists
+ *
+ * Called before the worktree is created, so a typo doesn't cost a rollback.
+ *
+ * @throws If the profile isn't defined in any setup file
+ */
+export async function ensureSetupProfile(profile: string | undefined): Promise<void> {
+    const repoRoot = await getRepoRoot();
+    if (profile && repoRoot) {
+        await loadHookCommands(repoRoot, "setup-worktree", profile);
+    }
+}
+
+/**
+ * Parse the value of the --on-setup-failure flag
+ *
+ * @throws If the value is not a known failure mode
+ */
+export function parseSetupFailureMode(value: string | undefined): SetupFailureMode | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!isSetupFailureMode(value)) {
+        throw new Error(`Invalid --on-setup-failure value "${value}". Use one of: ${SETUP_FAILURE_MODES.join(", ")}`);
+    }
+    return value;
+}
+
 /**
  * Execute setup commands from worktrees.json or .cursor/worktrees.json
  *
@@ -143,7 +1016,7 @@ export async function runSetupScripts(worktreePath: string): Promise<boolean> {
     }
 
     let setupFilePath: string | null = null;
-    let setupData: WorktreeSetupData | string[] | null = null;
+    let setupData: WorktreeSetupData | SetupStep[] | null = null;
 
     // Check for Cursor's worktrees.json first
     const cursorSetupPath = join(repoRoot, ".cursor", "worktrees.json");
@@ -173,10 +1046,10 @@ export async function runSetupScripts(worktreePath: string): Promise<boolean> {
 
         let commands: string[] = [];
         if (setupData && typeof setupData === 'object' && !Array.isArray(setupData) && Array.isArray(setupData["setup-worktree"])) {
-            commands = setupData["setup-worktree"];
+            commands = setupData["setup-worktree"].map(step => toHookStep(step).run);
         } else if (setupFilePath.includes("worktrees.json") && Array.isArray(setupData)) {
             // Handle Cursor's format if it's just an array
-            commands = setupData;
+            commands = setupData.map(step => toHookStep(step).run);
         }
 
         if (commands.length === 0) {
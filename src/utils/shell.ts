@@ -0,0 +1,81 @@
+import { writeFile } from "node:fs/promises";
+
+/**
+ * Shell integration
+ *
+ * A child process can't change its parent shell's directory, so `wt cd` and
+ * `wt new --cd` cooperate with a small shell function installed via
+ * `eval "$(wt shell-init zsh)"`. The function points WT_CD_FILE at a temporary
+ * file, runs the real `wt`, and cds into whatever path was written there.
+ */
+
+/**
+ * Environment variable set by the shell wrapper to receive the target directory
+ */
+export const CD_FILE_ENV = "WT_CD_FILE";
+
+/**
+ * Shells that `wt shell-init` can generate a wrapper for
+ */
+export const SUPPORTED_SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type SupportedShell = typeof SUPPORTED_SHELLS[number];
+
+const POSIX_WRAPPER = `wt() {
+    local __wt_cd_file __wt_status
+    __wt_cd_file="$(mktemp "\${TMPDIR:-/tmp}/wt-cd.XXXXXX")" || return 1
+    ${CD_FILE_ENV}="$__wt_cd_file" command wt "$@"
+    __wt_status=$?
+    if [ -s "$__wt_cd_file" ]; then
+        cd -- "$(cat "$__wt_cd_file")" || __wt_status=$?
+    fi
+    rm -f "$__wt_cd_file"
+    return $__wt_status
+}
+`;
+
+const FISH_WRAPPER = `function wt --wraps wt
+    set -l __wt_cd_file (mktemp); or return 1
+    env ${CD_FILE_ENV}=$__wt_cd_file wt $argv
+    set -l __wt_status $status
+    if test -s $__wt_cd_file
+        cd (cat $__wt_cd_file); or set __wt_status $status
+    end
+    rm -f $__wt_cd_file
+    return $__wt_status
+end
+`;
+
+/**
+ * Check whether a shell name is supported by `wt shell-init`
+ */
+export function isSupportedShell(shell: string): shell is SupportedShell {
+    return (SUPPORTED_SHELLS as readonly string[]).includes(shell);
+}
+
+/**
+ * Get the wrapper function script for a shell
+ *
+ * @param shell - Target shell
+ * @returns Script to be evaluated by the shell's startup file
+ */
+export function getShellInitScript(shell: SupportedShell): string {
+    return shell === "fish" ? FISH_WRAPPER : POSIX_WRAPPER;
+}
+
+/**
+ * Ask the calling shell to change into a directory
+ *
+ * Only works when `wt` runs through the shell-init wrapper.
+ *
+ * @param path - Directory the shell should change into
+ * @returns true if the request was handed to the wrapper, false if shell integration isn't active
+ */
+export async function requestShellCd(path: string): Promise<boolean> {
+    const cdFile = process.env[CD_FILE_ENV];
+    if (!cdFile) {
+        return false;
+    }
+    await writeFile(cdFile, path, "utf-8");
+    return true;
+}
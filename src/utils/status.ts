@@ -0,0 +1,156 @@
+import {
+    WorktreeInfo,
+    StatusCounts,
+    getStatusCounts,
+    getUpstreamBranch,
+    getAheadBehind,
+    getLastCommit,
+    isMergedInto,
+    hasOwnCommits,
+} from "./git.js";
+
+/**
+ * Detailed state of a single worktree, as reported by `wt status`
+ */
+export interface WorktreeStatus {
+    /** The worktree this status describes */
+    worktree: WorktreeInfo;
+    /** Uncommitted change counts (null if the worktree could not be inspected) */
+    changes: StatusCounts | null;
+    /** Upstream tracking branch, or null if none */
+    upstream: string | null;
+    /** Commits ahead/behind the upstream branch (null without an upstream) */
+    upstreamDivergence: { ahead: number; behind: number } | null;
+    /** The default branch the worktree is compared against (null if unknown) */
+    defaultBranch: string | null;
+    /** Commits ahead/behind the default branch (null if not comparable) */
+    defaultDivergence: { ahead: number; behind: number } | null;
+    /** Most recent commit on the worktree's HEAD */
+    lastCommit: { hash: string; subject: string; timestamp: number } | null;
+    /** Whether the branch is fully merged into the default branch (null if not applicable) */
+    merged: boolean | null;
+}
+
+/**
+ * Collect the full status of a worktree
+ *
+ * Prunable (missing) and bare worktrees can't be inspected, so only the
+ * parsed worktree information is returned for them.
+ *
+ * @param wt - The worktree to inspect
+ * @param defaultBranch - Ref of the repository's default branch (from getDefaultBranch())
+ */
+export async function collectWorktreeStatus(wt: WorktreeInfo, defaultBranch: string | null): Promise<WorktreeStatus> {
+    const status: WorktreeStatus = {
+        worktree: wt,
+        changes: null,
+        upstream: null,
+        upstreamDivergence: null,
+        defaultBranch,
+        defaultDivergence: null,
+        lastCommit: null,
+        merged: null,
+    };
+
+    if (wt.bare || wt.prunable) {
+        return status;
+    }
+
+    // The default branch itself is never "merged" or diverged from itself
+    const compareWithDefault = !!defaultBranch && wt.branch !== defaultBranch;
+
+    const [changes, upstream, lastCommit, defaultDivergence, merged] = await Promise.all([
+        getStatusCounts(wt.path),
+        wt.branch ? getUpstreamBranch(wt.path) : Promise.resolve(null),
+        getLastCommit(wt.path),
+        compareWithDefault ? getAheadBehind(defaultBranch!, "HEAD", wt.path) : Promise.resolve(null),
+        compareWithDefault && wt.branch ? isBranchMerged(wt.branch, defaultBranch!, wt.path) : Promise.resolve(null),
+    ]);
+
+    status.changes = changes;
+    status.upstream = upstream;
+    status.lastCommit = lastCommit;
+    status.defaultDivergence = defaultDivergence;
+    status.merged = merged;
+
+    if (upstream) {
+        status.upstreamDivergence = await getAheadBehind(upstream, "HEAD", wt.path);
+    }
+
+    return status;
+}
+
+/**
+ * Check whether a branch was merged into the default branch
+ *
+ * A branch without commits of its own is contained in the default branch
+ * from the start, so it only counts as merged once it has moved.
+ */
+async function isBranchMerged(branch: string, defaultBranch: string, cwd: string): Promise<boolean> {
+    const [contained, ownCommits] = await Promise.all([
+        isMergedInto("HEAD", defaultBranch, cwd),
+        hasOwnCommits(branch, defaultBranch, cwd),
+    ]);
+    return contained && ownCommits;
+}
+
+/**
+ * Format a Unix timestamp as a short relative age (e.g., "5m ago", "3d ago")
+ *
+ * @param timestamp - Time in seconds since the epoch
+ * @param now - Reference time in milliseconds (defaults to Date.now())
+ */
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+    const seconds = Math.max(0, Math.floor(now / 1000 - timestamp));
+    const units: Array<[string, number]> = [
+        ['y', 365 * 24 * 60 * 60],
+        ['mo', 30 * 24 * 60 * 60],
+        ['w', 7 * 24 * 60 * 60],
+        ['d', 24 * 60 * 60],
+        ['h', 60 * 60],
+        ['m', 60],
+    ];
+
+    for (const [label, size] of units) {
+        if (seconds >= size) {
+            return `${Math.floor(seconds / size)}${label} ago`;
+        }
+    }
+    return 'just now';
+}
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    mo: 30 * 24 * 60 * 60 * 1000,
+    y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a human duration such as "30m", "12h", "2w" or "1d12h" into milliseconds
+ *
+ * Supported units: s, m (minutes), h, d, w, mo (30 days), y (365 days).
+ *
+ * @throws Error if the duration can't be parsed
+ */
+export function parseDuration(input: string): number {
+    const trimmed = input.trim().toLowerCase();
+    const pattern = /(\d+(?:\.\d+)?)\s*(mo|[smhdwy])/g;
+
+    let total = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(trimmed)) !== null) {
+        if (match.index !== consumed) break;
+        total += Number(match[1]) * DURATION_UNITS[match[2]];
+        consumed = match.index + match[0].length;
+    }
+
+    if (!trimmed || consumed !== trimmed.length) {
+        throw new Error(`Invalid duration "${input}". Use a number followed by s, m, h, d, w, mo or y (e.g., 2w, 36h).`);
+    }
+    return total;
+}
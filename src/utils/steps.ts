@@ -0,0 +1,321 @@
+import chalk from "chalk";
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { getWorktrees } from "./git.js";
+import { execLogged } from "./logs.js";
+import { runGit } from "./query.js";
+import { createSpinner } from "./spinner.js";
+
+/**
+ * Hook steps, their conditions and how they are run
+ *
+ * A hook step in worktrees.json is either a command string or an object
+ * with the command under `run`, an optional `when` condition and options
+ * for running it:
+ *
+ *     { "run": "pnpm install", "when": { "changed": "pnpm-lock.yaml" }, "retries": 2 }
+ *
+ * Conditions are evaluated in the worktree just before the hook runs;
+ * steps whose condition doesn't hold are skipped, but still shown for
+ * confirmation (marked as skipped), since approving the hook also covers
+ * them once their condition holds.
+ *
+ * Steps run one at a time with their output streamed, except that
+ * consecutive steps in the same `parallel` group run side by side with their
+ * output held back (and shown only if they fail). Either way each step ends
+ * with a line saying whether it succeeded, how long it took and how many
+ * attempts it needed.
+ */
+
+/**
+ * Files a step depends on; each may be one path or a list of paths
+ * relative to the worktree
+ */
+export interface StepCondition {
+    /** Run only if one of these files differs from the reference (see evaluateStepCondition) */
+    changed?: string | string[];
+    /** Run only if one of these files exists in the worktree */
+    exists?: string | string[];
+}
+
+/**
+ * A step with the string shorthand expanded
+ */
+export interface HookStep {
+    /** Shell command, before `{{placeholders}}` are replaced */
+    run: string;
+    when?: StepCondition;
+    /** Seconds after which the command is killed and counts as failed */
+    timeout?: number;
+    /** How often to rerun the command after it fails or times out */
+    retries?: number;
+    /** Directory to run in, relative to the worktree */
+    cwd?: string;
+    /** Group name; consecutive steps in the same group run side by side */
+    parallel?: string;
+}
+
+/**
+ * A step as written in a setup file
+ */
+export type SetupStep = string | HookStep;
+
+/**
+ * Keys allowed in an object step and in its `when` condition
+ */
+export const STEP_KEYS = ["run", "when", "timeout", "retries", "cwd", "parallel"] as const;
+export const CONDITION_KEYS = ["changed", "exists"] as const;
+
+/**
+ * Expand the string shorthand of a step
+ */
+export function toHookStep(step: SetupStep): HookStep {
+    return typeof step === "string" ? { run: step } : step;
+}
+
+function toList(paths: string | string[] | undefined): string[] {
+    return paths === undefined ? [] : Array.isArray(paths) ? paths : [paths];
+}
+
+/**
+ * Describe a condition for messages, e.g. "pnpm-lock.yaml changed"
+ */
+export function describeStepCondition(when: StepCondition): string {
+    const parts: string[] = [];
+    if (when.changed !== undefined) {
+        parts.push(`${toList(when.changed).join(" or ")} changed`);
+    }
+    if (when.exists !== undefined) {
+        parts.push(`${toList(when.exists).join(" or ")} exists`);
+    }
+    return parts.join(" and ");
+}
+
+/**
+ * Describe how a step is run for messages, e.g. "in packages/api, 2 retries",
+ * or "" for a plain command
+ */
+export function describeStepOptions(step: HookStep): string {
+    const parts: string[] = [];
+    if (step.cwd !== undefined) parts.push(`in ${step.cwd}`);
+    if (step.timeout !== undefined) parts.push(`timeout ${step.timeout}s`);
+    if (step.retries) parts.push(`${step.retries} ${step.retries === 1 ? "retry" : "retries"}`);
+    if (step.parallel !== undefined) parts.push(`parallel group "${step.parallel}"`);
+    return parts.join(", ");
+}
+
+/**
+ * Where `changed` files are compared against
+ *
+ * - `main`: the same file in the main worktree (a file missing on only one side counts as changed)
+ * - `merge`: the worktree's state before the last merge (ORIG_HEAD), for `post-merge`
+ */
+export type ChangeReference = "main" | "merge";
+
+/**
+ * Check whether a step's condition holds in a worktree
+ *
+ * `changed` and `exists` must both hold when both are given; within each,
+ * one matching file is enough.
+ *
+ * @param worktreePath - Worktree the step would run in
+ * @param reference - What `changed` compares against
+ */
+export async function evaluateStepCondition(
+    when: StepCondition | undefined,
+    worktreePath: string,
+    reference: ChangeReference
+): Promise<boolean> {
+    if (!when) {
+        return true;
+    }
+
+    const exists = toList(when.exists);
+    if (exists.length > 0) {
+        const found = await Promise.all(exists.map(file => stat(join(worktreePath, file)).then(() => true, () => false)));
+        if (!found.includes(true)) {
+            return false;
+        }
+    }
+
+    const changed = toList(when.changed);
+    if (changed.length > 0) {
+        if (reference === "merge") {
+            const diff = await runGit(["diff", "--quiet", "ORIG_HEAD", "HEAD", "--", ...changed], { cwd: worktreePath, reject: false });
+            // Exit code 1 means there are differences; anything else (e.g. no ORIG_HEAD) is treated as changed
+            return diff.exitCode !== 0;
+        }
+
+        const main = (await getWorktrees(worktreePath)).find(wt => wt.isMain && !wt.bare);
+        if (!main) {
+            return true;
+        }
+        for (const file of changed) {
+            const [ours, theirs] = await Promise.all([
+                readFile(join(worktreePath, file)).catch(() => null),
+                readFile(join(main.path, file)).catch(() => null),
+            ]);
+            if ((ours === null) !== (theirs === null) || (ours && theirs && !ours.equals(theirs))) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * A step ready to run: its command with `{{placeholders}}` replaced
+ */
+export interface StepToRun {
+    step: HookStep;
+    command: string;
+}
+
+/**
+ * Outcome of a step run by runHookSteps()
+ */
+export interface StepResult {
+    command: string;
+    ok: boolean;
+    /** Runs it took, including retries */
+    attempts: number;
+    /** Seconds from the first attempt to the last one ending */
+    duration: number;
+    /** Why the last attempt failed */
+    error?: string;
+    /** Output of the failed attempt, for steps whose output was held back */
+    output?: string;
+}
+
+/**
+ * Run one step, retrying as configured
+ */
+async function runStep(
+    { step, command }: StepToRun,
+    worktreePath: string,
+    env: NodeJS.ProcessEnv,
+    quiet: boolean,
+    onRetry: (attempt: number, error: string) => void
+): Promise<StepResult> {
+    const startedAt = Date.now();
+    const attempts = (step.retries ?? 0) + 1;
+    const cwd = step.cwd === undefined ? worktreePath : join(worktreePath, step.cwd);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await execLogged(command, [], {
+                shell: true,
+                cwd,
+                env,
+                worktree: worktreePath,
+                quiet,
+                ...(step.timeout !== undefined && { timeout: step.timeout * 1000 }),
+            });
+            return { command, ok: true, attempts: attempt, duration: (Date.now() - startedAt) / 1000 };
+        } catch (error: any) {
+            const message: string = error?.timedOut
+                ? `timed out after ${step.timeout}s`
+                : typeof error?.exitCode === "number"
+                    ? `exit code ${error.exitCode}`
+                    : error?.shortMessage ?? error?.message ?? String(error);
+            if (attempt >= attempts) {
+                return {
+                    command,
+                    ok: false,
+                    attempts: attempt,
+                    duration: (Date.now() - startedAt) / 1000,
+                    error: message,
+                    ...(quiet && error?.all && { output: String(error.all) }),
+                };
+            }
+            onRetry(attempt + 1, message);
+        }
+    }
+}
+
+/**
+ * Split steps into batches: a single step, or consecutive steps of one `parallel` group
+ */
+function toBatches(steps: StepToRun[]): StepToRun[][] {
+    const batches: StepToRun[][] = [];
+    for (const entry of steps) {
+        const last = batches[batches.length - 1];
+        const group = entry.step.parallel;
+        if (group !== undefined && last && last[0].step.parallel === group) {
+            last.push(entry);
+        } else {
+            batches.push([entry]);
+        }
+    }
+    return batches;
+}
+
+/**
+ * Describe the outcome of a step for its final spinner line
+ */
+function describeResult(result: StepResult): string {
+    const details = [`${result.duration.toFixed(1)}s`];
+    if (result.attempts > 1) details.push(`${result.attempts} attempts`);
+    if (!result.ok && result.error) details.push(result.error);
+    return `${result.ok ? "Completed" : "Failed"}: ${result.command} (${details.join(", ")})`;
+}
+
+/**
+ * Run hook steps in order, with a spinner line per step
+ *
+ * A batch of parallel steps always runs to completion, so the steps of a
+ * group that started together are all reported even if one fails.
+ *
+ * @param worktreePath - Worktree the steps run in (`cwd` is relative to it)
+ * @param env - Environment for the commands
+ * @param options.stopOnFailure - Don't start further steps once one has failed
+ * @returns The outcome of every step that was started
+ */
+export async function runHookSteps(
+    steps: StepToRun[],
+    worktreePath: string,
+    env: NodeJS.ProcessEnv,
+    options: { stopOnFailure: boolean }
+): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+
+    for (const batch of toBatches(steps)) {
+        if (batch.length === 1) {
+            const [entry] = batch;
+            const spinner = createSpinner(`Executing: ${entry.command}`).start();
+            const result = await runStep(entry, worktreePath, env, false, (attempt, error) => {
+                spinner.warn(`Failed: ${entry.command} (${error}), retrying...`);
+                spinner.start(`Executing: ${entry.command} (attempt ${attempt})`);
+            });
+            if (result.ok) {
+                spinner.succeed(describeResult(result));
+            } else {
+                spinner.fail(describeResult(result));
+            }
+            results.push(result);
+        } else {
+            const group = batch[0].step.parallel;
+            const spinner = createSpinner(`Running ${batch.length} steps in parallel (group "${group}")...`).start();
+            const batchResults = await Promise.all(batch.map(entry => runStep(entry, worktreePath, env, true, () => {})));
+            spinner.stop();
+            for (const result of batchResults) {
+                if (result.ok) {
+                    createSpinner(describeResult(result)).succeed();
+                } else {
+                    createSpinner(describeResult(result)).fail();
+                    if (result.output) {
+                        console.log(chalk.gray(result.output.trimEnd()));
+                    }
+                }
+            }
+            results.push(...batchResults);
+        }
+
+        if (options.stopOnFailure && results.some(result => !result.ok)) {
+            break;
+        }
+    }
+    return results;
+}
@@ -0,0 +1,196 @@
+import Conf from "conf";
+import chalk from "chalk";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { getConfigDir } from "../config.js";
+import { confirmCommands } from "./tui.js";
+
+/**
+ * Remembered approvals for setup files
+ *
+ * When the user approves the commands of a hook in a setup file, the file's
+ * content is recorded under its repository, path and the approved scope (the
+ * hook, plus the profile for `setup-worktree`). As long as the file is
+ * unchanged, that hook's commands run without prompting again; other hooks
+ * and profiles, whose commands weren't shown, still ask. Any edit changes the
+ * hash, so the user is shown what changed and asked again.
+ *
+ * Approvals are stored in `trust.json` next to the CLI's config file.
+ */
+
+/**
+ * An approved setup file
+ */
+export interface TrustEntry {
+    /** Repository root the file belongs to */
+    repo: string;
+    /** Absolute path of the setup file */
+    file: string;
+    /** Hook whose commands were approved, with the profile for `setup-worktree` (e.g. "setup-worktree:web") */
+    scope: string;
+    /** SHA-256 of the approved content */
+    hash: string;
+    /** Approved content, used to show what changed */
+    content: string;
+    /** When the file was approved (ISO 8601) */
+    trustedAt: string;
+}
+
+interface TrustSchema {
+    entries: TrustEntry[];
+}
+
+let store: Conf<TrustSchema> | null = null;
+
+function getStore(): Conf<TrustSchema> {
+    store ??= new Conf<TrustSchema>({
+        cwd: getConfigDir(),
+        configName: "trust",
+        defaults: { entries: [] },
+    });
+    return store;
+}
+
+/**
+ * Hash setup file content for comparison with an approval
+ */
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * List all remembered approvals
+ */
+export function getTrustEntries(): TrustEntry[] {
+    return getStore().get("entries");
+}
+
+/**
+ * Find the approval for a scope of a setup file, regardless of whether its content still matches
+ *
+ * Approvals recorded without a scope never match, so they are asked for again.
+ */
+export function findTrustEntry(repo: string, file: string, scope: string): TrustEntry | null {
+    return getTrustEntries().find(entry => entry.repo === repo && entry.file === file && entry.scope === scope) ?? null;
+}
+
+/**
+ * Remember that the user approved a scope of a setup file with the given content
+ *
+ * Replaces any earlier approval for the same file and scope, and approvals of
+ * the file recorded without a scope.
+ */
+export function trustFile(repo: string, file: string, scope: string, content: string): TrustEntry {
+    const entry: TrustEntry = { repo, file, scope, hash: hashContent(content), content, trustedAt: new Date().toISOString() };
+    const others = getTrustEntries().filter(existing =>
+        !(existing.repo === repo && existing.file === file && (existing.scope === scope || existing.scope === undefined)));
+    getStore().set("entries", [...others, entry]);
+    return entry;
+}
+
+/**
+ * Forget approvals
+ *
+ * @param target - A setup file or repository root; every approval whose file
+ *   or repository matches is removed. Omit to remove all approvals.
+ * @returns The removed approvals
+ */
+export function revokeTrust(target?: string): TrustEntry[] {
+    const entries = getTrustEntries();
+    const path = target === undefined ? null : resolve(target);
+    const matches = (entry: TrustEntry) => path === null || entry.file === path || entry.repo === path;
+
+    getStore().set("entries", entries.filter(entry => !matches(entry)));
+    return entries.filter(matches);
+}
+
+/**
+ * Compute a line diff between two texts
+ *
+ * @returns Lines prefixed with "+ " (added), "- " (removed) or "  " (unchanged)
+ */
+export function diffLines(before: string, after: string): string[] {
+    const a = before.split("\n");
+    const b = after.split("\n");
+
+    // Longest common subsequence table, filled from the end
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push(`  ${a[i]}`);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push(`- ${a[i++]}`);
+        } else {
+            lines.push(`+ ${b[j++]}`);
+        }
+    }
+    while (i < a.length) lines.push(`- ${a[i++]}`);
+    while (j < b.length) lines.push(`+ ${b[j++]}`);
+    return lines;
+}
+
+/**
+ * Ask for confirmation before running commands from a setup file, unless the
+ * file's current content was approved before for the same scope
+ *
+ * If the file changed since it was approved, the differences are shown before
+ * the prompt. Approving remembers the new content for this scope only, so
+ * `commands` must list everything the scope can run.
+ *
+ * @param repo - Repository root the setup file belongs to
+ * @param file - Absolute path of the setup file the commands come from
+ * @param scope - Hook (and profile) the commands belong to, as in TrustEntry
+ * @param commands - Commands that will be executed
+ * @param options - Prompt title; `trust` skips the check without remembering anything
+ * @returns true if the commands may run
+ */
+export async function confirmTrustedCommands(
+    repo: string,
+    file: string,
+    scope: string,
+    commands: string[],
+    options: { title?: string; trust?: boolean } = {}
+): Promise<boolean> {
+    if (options.trust) {
+        return true;
+    }
+
+    const content = await readFile(file, "utf-8");
+    const entry = findTrustEntry(repo, file, scope);
+
+    if (entry?.hash === hashContent(content)) {
+        console.log(chalk.gray(`Running previously approved commands from ${file} (revoke with 'wt trust revoke').`));
+        return true;
+    }
+
+    if (entry) {
+        console.log(chalk.yellow(`${file} changed since you approved it on ${new Date(entry.trustedAt).toLocaleString()}:`));
+        console.log();
+        for (const line of diffLines(entry.content, content)) {
+            if (line.startsWith("+ ")) {
+                console.log(chalk.green(line));
+            } else if (line.startsWith("- ")) {
+                console.log(chalk.red(line));
+            }
+        }
+        console.log();
+    }
+
+    const approved = await confirmCommands(commands, { title: options.title });
+    if (approved) {
+        trustFile(repo, file, scope, content);
+    }
+    return approved;
+}
@@ -1,5 +1,6 @@
 import prompts from "prompts";
 import chalk from "chalk";
+import type { Writable } from "node:stream";
 import { getWorktrees, WorktreeInfo } from "./git.js";
 
 /**
@@ -10,19 +11,24 @@ import { getWorktrees, WorktreeInfo } from "./git.js";
  * @param options.message - Prompt message
  * @param options.excludeMain - Exclude the main worktree from the list
  * @param options.multiSelect - Allow multiple selections
+ * @param options.output - Stream to render the prompt on (default: stdout). Use
+ *   stderr when stdout is reserved for machine-readable output.
  * @returns Selected worktree(s) or null if cancelled
  */
 export async function selectWorktree(options: {
     message?: string;
     excludeMain?: boolean;
     multiSelect?: boolean;
+    output?: Writable;
 }): Promise<WorktreeInfo | WorktreeInfo[] | null> {
     const { message = "Select a worktree", excludeMain = false, multiSelect = false } = options;
+    const output: Writable = options.output ?? process.stdout;
+    const notice = (text: string) => output.write(chalk.yellow(text) + "\n");
 
     const worktrees = await getWorktrees();
 
     if (worktrees.length === 0) {
-        console.log(chalk.yellow("No worktrees found."));
+        notice("No worktrees found.");
         return null;
     }
 
@@ -30,7 +36,7 @@ export async function selectWorktree(options: {
     if (excludeMain) {
         filteredWorktrees = worktrees.filter(wt => !wt.isMain);
         if (filteredWorktrees.length === 0) {
-            console.log(chalk.yellow("No worktrees to select (only main worktree exists)."));
+            notice("No worktrees to select (only main worktree exists).");
             return null;
         }
     }
@@ -48,6 +54,7 @@ export async function selectWorktree(options: {
             choices,
             hint: '- Space to select. Enter to confirm.',
             instructions: false,
+            stdout: output,
         });
 
         if (!response.worktrees || response.worktrees.length === 0) {
@@ -61,6 +68,7 @@ export async function selectWorktree(options: {
             name: 'worktree',
             message,
             choices,
+            stdout: output,
             suggest: (input, choices) => {
                 const lowercaseInput = input.toLowerCase();
                 return Promise.resolve(
@@ -152,6 +160,30 @@ export async function inputText(message: string, options: {
     return response.value ?? null;
 }
 
+/**
+ * Let the user pick any number of items from a list
+ *
+ * @param message - The prompt message
+ * @param choices - Items to choose from, with whether each starts selected
+ * @returns The selected values (possibly none) or null if cancelled
+ */
+export async function selectItems<T>(message: string, choices: Array<{
+    title: string;
+    value: T;
+    selected?: boolean;
+}>): Promise<T[] | null> {
+    const response = await prompts({
+        type: 'multiselect',
+        name: 'items',
+        message,
+        choices,
+        hint: '- Space to toggle. Enter to confirm.',
+        instructions: false,
+    });
+
+    return response.items ?? null;
+}
+
 /**
  * Show commands that will be executed and ask for confirmation
  *
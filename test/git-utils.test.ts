@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { execa } from 'execa';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { lstat, mkdir, readFile, readlink, rm, symlink, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
@@ -19,7 +19,7 @@ async function createTestRepo(): Promise<TestContext> {
     const repoDir = join(testDir, 'repo');
 
     await mkdir(repoDir, { recursive: true });
-    await execa('git', ['init'], { cwd: repoDir });
+    await execa('git', ['init', '-b', 'main'], { cwd: repoDir });
     await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: repoDir });
     await execa('git', ['config', 'user.name', 'Test User'], { cwd: repoDir });
     await writeFile(join(repoDir, 'README.md'), '# Test\n');
@@ -297,3 +297,321 @@ describe('stashChanges and popStash', () => {
         expect(stashHash).toBeNull();
     });
 });
+
+describe('getStatusCounts', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should count staged, unstaged and untracked files', async () => {
+        const { getStatusCounts } = await import('../src/utils/git.js');
+
+        await writeFile(join(ctx.repoDir, 'README.md'), '# Changed\n');
+        await writeFile(join(ctx.repoDir, 'staged.txt'), 'staged');
+        await execa('git', ['add', 'staged.txt'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, 'untracked.txt'), 'untracked');
+
+        const counts = await getStatusCounts(ctx.repoDir);
+        expect(counts).toEqual({ staged: 1, unstaged: 1, untracked: 1, conflicted: 0 });
+
+        // Cleanup
+        await execa('git', ['reset', '--hard', 'HEAD'], { cwd: ctx.repoDir }).catch(() => {});
+        await execa('git', ['clean', '-fd'], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should return null for a missing directory', async () => {
+        const { getStatusCounts } = await import('../src/utils/git.js');
+
+        const counts = await getStatusCounts(join(ctx.testDir, 'missing'));
+        expect(counts).toBeNull();
+    });
+});
+
+describe('getAheadBehind and getDefaultBranch', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should resolve the default branch from local branches', async () => {
+        const { getDefaultBranch } = await import('../src/utils/git.js');
+
+        const defaultBranch = await getDefaultBranch(ctx.repoDir);
+        expect(defaultBranch).toBe('main');
+    });
+
+    it('should count commits ahead of and behind a base ref', async () => {
+        const { getAheadBehind, isMergedInto } = await import('../src/utils/git.js');
+
+        await execa('git', ['checkout', '-b', 'feature/ahead'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, 'feature.txt'), 'feature');
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Feature commit'], { cwd: ctx.repoDir });
+
+        const divergence = await getAheadBehind('main', 'HEAD', ctx.repoDir);
+        expect(divergence).toEqual({ ahead: 1, behind: 0 });
+        expect(await isMergedInto('HEAD', 'main', ctx.repoDir)).toBe(false);
+        expect(await isMergedInto('main', 'HEAD', ctx.repoDir)).toBe(true);
+
+        await execa('git', ['checkout', 'main'], { cwd: ctx.repoDir });
+    });
+});
+
+describe('measureWorktree', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should split disk usage into tracked, ignored and untracked', async () => {
+        const { measureWorktree } = await import('../src/utils/disk.js');
+
+        await writeFile(join(ctx.repoDir, '.gitignore'), 'node_modules/\n');
+        await mkdir(join(ctx.repoDir, 'node_modules', 'pkg'), { recursive: true });
+        await writeFile(join(ctx.repoDir, 'node_modules', 'pkg', 'index.js'), 'x'.repeat(64 * 1024));
+
+        const usage = await measureWorktree(ctx.repoDir);
+
+        expect(usage.ignored).toBeGreaterThanOrEqual(64 * 1024);
+        expect(usage.tracked).toBeGreaterThan(0);
+        expect(usage.untracked).toBeGreaterThan(0); // the new .gitignore
+        expect(usage.total).toBe(usage.tracked + usage.ignored + usage.untracked);
+    });
+});
+
+describe('getStaleWorktreeEntries and findOrphanedDirectories', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should report worktree metadata whose directory is gone', async () => {
+        const { getStaleWorktreeEntries } = await import('../src/utils/prune.js');
+        const worktreePath = join(ctx.testDir, 'repo-deleted');
+
+        await execa('git', ['worktree', 'add', '-b', 'deleted', worktreePath], { cwd: ctx.repoDir });
+        await rm(worktreePath, { recursive: true, force: true });
+
+        const entries = await getStaleWorktreeEntries(ctx.repoDir);
+        expect(entries.map(e => e.name)).toEqual(['repo-deleted']);
+
+        await execa('git', ['worktree', 'prune'], { cwd: ctx.repoDir });
+    });
+
+    it('should find sibling directories whose worktree metadata was removed', async () => {
+        const { findOrphanedDirectories } = await import('../src/utils/prune.js');
+        const orphanPath = join(ctx.testDir, 'repo-orphan');
+        const livePath = join(ctx.testDir, 'repo-live');
+
+        await execa('git', ['worktree', 'add', '-b', 'orphan', orphanPath], { cwd: ctx.repoDir });
+        await execa('git', ['worktree', 'add', '-b', 'live', livePath], { cwd: ctx.repoDir });
+        await rm(join(ctx.repoDir, '.git', 'worktrees', 'repo-orphan'), { recursive: true, force: true });
+        await mkdir(join(ctx.testDir, 'repo-unrelated'));
+
+        const orphans = await findOrphanedDirectories(ctx.repoDir, null);
+
+        expect(orphans.map(o => o.path)).toEqual([orphanPath]);
+    });
+
+    it('should treat unregistered folders under the worktree root as orphans', async () => {
+        const { findOrphanedDirectories } = await import('../src/utils/prune.js');
+        const worktreeRoot = join(ctx.testDir, 'worktrees');
+        const leftover = join(worktreeRoot, 'repo', 'old-feature');
+        await mkdir(leftover, { recursive: true });
+
+        const orphans = await findOrphanedDirectories(ctx.repoDir, worktreeRoot);
+
+        expect(orphans.find(o => o.path === leftover)?.reason).toBe('no git metadata');
+    });
+});
+
+describe('runDoctorChecks', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should detect and repair core.bare and corrupt .git links', async () => {
+        const { runDoctorChecks } = await import('../src/utils/doctor.js');
+        const worktreePath = join(ctx.testDir, 'repo-doctor');
+        await execa('git', ['worktree', 'add', '-b', 'doctor', worktreePath], { cwd: ctx.repoDir });
+
+        await writeFile(join(worktreePath, '.git'), 'not a gitdir link\n');
+        await execa('git', ['config', 'core.bare', 'true'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), '{ invalid');
+
+        const results = await runDoctorChecks(ctx.repoDir);
+        const byName = (name: string) => results.find(r => r.name === name)!;
+
+        expect(byName('core.bare').status).toBe('fail');
+        expect(byName('Worktree links').status).toBe('fail');
+        expect(byName('Setup file').status).toBe('fail');
+
+        await byName('core.bare').repair!();
+        await byName('Worktree links').repair!();
+        await rm(join(ctx.repoDir, 'worktrees.json'));
+
+        const after = await runDoctorChecks(ctx.repoDir);
+        expect(after.find(r => r.name === 'core.bare')!.status).toBe('pass');
+        expect(after.find(r => r.name === 'Worktree links')!.status).toBe('pass');
+        expect(after.find(r => r.name === 'Setup file')!.status).toBe('pass');
+    });
+});
+
+describe('findRelocatedWorktrees', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should find worktrees moved next to the main worktree', async () => {
+        const { findRelocatedWorktrees, findOrphanedDirectories } = await import('../src/utils/prune.js');
+        const { rename } = await import('node:fs/promises');
+        const originalPath = join(ctx.testDir, 'elsewhere');
+        const movedPath = join(ctx.testDir, 'repo-moved');
+
+        await execa('git', ['worktree', 'add', '-b', 'moved', originalPath], { cwd: ctx.repoDir });
+        await rename(originalPath, movedPath);
+
+        const relocated = await findRelocatedWorktrees(ctx.repoDir, null);
+        expect(relocated.map(r => r.name)).toEqual(['elsewhere']);
+        expect(relocated[0].newPath).toBe(movedPath);
+
+        // A moved worktree must never be offered for deletion
+        expect(await findOrphanedDirectories(ctx.repoDir, null)).toEqual([]);
+    });
+});
+
+describe('detectInstallSteps', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should detect one tool per ecosystem, preferring lockfiles', async () => {
+        const { detectInstallSteps } = await import('../src/utils/install.js');
+        await writeFile(join(ctx.repoDir, 'package.json'), '{}');
+        await writeFile(join(ctx.repoDir, 'pnpm-lock.yaml'), '');
+        await writeFile(join(ctx.repoDir, 'go.sum'), '');
+        await writeFile(join(ctx.repoDir, 'uv.lock'), '');
+
+        const steps = await detectInstallSteps(ctx.repoDir);
+        expect(steps.map(step => [step.tool, ...step.args].join(' '))).toEqual(['pnpm install', 'uv sync', 'go mod download']);
+    });
+
+    it('should detect nothing in a directory without manifests', async () => {
+        const { detectInstallSteps } = await import('../src/utils/install.js');
+        expect(await detectInstallSteps(ctx.testDir)).toEqual([]);
+    });
+});
+
+describe('suggestSetupEntries', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should suggest steps from the env template, lockfiles and Compose file', async () => {
+        const { suggestSetupEntries, buildSetupFile } = await import('../src/utils/init.js');
+        await writeFile(join(ctx.repoDir, '.env.example'), 'PORT=3000\n');
+        await writeFile(join(ctx.repoDir, 'yarn.lock'), '');
+        await writeFile(join(ctx.repoDir, 'compose.yaml'), '');
+
+        const suggestions = await suggestSetupEntries(ctx.repoDir);
+        expect(suggestions.map(({ key, value, selected }) => [key, value, selected])).toEqual([
+            ['setup-worktree', 'cp -n .env.example .env', true],
+            ['setup-worktree', 'yarn install', true],
+            ['setup-worktree', 'docker compose up -d', false],
+            ['teardown-worktree', 'docker compose down', true],
+        ]);
+
+        const data = buildSetupFile(suggestions.filter(suggestion => suggestion.selected));
+        expect(data['setup-worktree']).toEqual(['cp -n .env.example .env', 'yarn install']);
+        expect(data['teardown-worktree']).toEqual(['docker compose down']);
+    });
+
+    it('should copy real env files and import Cursor steps without repeating them', async () => {
+        const { suggestSetupEntries } = await import('../src/utils/init.js');
+        await writeFile(join(ctx.repoDir, '.env'), 'PORT=3000\n');
+        await mkdir(join(ctx.repoDir, '.cursor'), { recursive: true });
+        await writeFile(join(ctx.repoDir, '.cursor', 'worktrees.json'), '["yarn install", "yarn build"]');
+
+        const suggestions = await suggestSetupEntries(ctx.repoDir);
+        expect(suggestions.filter(({ key }) => key !== 'teardown-worktree').map(({ key, value }) => [key, value])).toEqual([
+            ['setup-worktree', 'yarn install'],
+            ['setup-worktree', 'yarn build'],
+            ['copy', '.env'],
+            ['setup-worktree', 'docker compose up -d'],
+        ]);
+    });
+});
+
+describe('cloneTree', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should recreate files, directories and relative symlinks', async () => {
+        const { cloneTree } = await import('../src/utils/install.js');
+        const source = join(ctx.testDir, 'source');
+        await mkdir(join(source, '.pnpm', 'left-pad'), { recursive: true });
+        await writeFile(join(source, '.pnpm', 'left-pad', 'index.js'), 'module.exports = 1;');
+        await symlink(join('.pnpm', 'left-pad'), join(source, 'left-pad'));
+
+        const state = { method: 'clone' as const, files: 0 };
+        const target = join(ctx.testDir, 'target');
+        await cloneTree(source, target, state);
+
+        expect(state.files).toBe(1);
+        expect(await readFile(join(target, '.pnpm', 'left-pad', 'index.js'), 'utf-8')).toBe('module.exports = 1;');
+        expect((await lstat(join(target, 'left-pad'))).isSymbolicLink()).toBe(true);
+        expect(await readlink(join(target, 'left-pad'))).toBe(join('.pnpm', 'left-pad'));
+    });
+});
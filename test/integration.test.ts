@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import { execa } from 'execa';
-import { mkdir, rm, writeFile, readFile, stat } from 'node:fs/promises';
-import { join, resolve } from 'node:path';
+import { mkdir, rm, writeFile, readFile, stat, realpath, rename } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
 import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
 
 /**
  * Integration tests for the worktree CLI
@@ -30,7 +31,7 @@ async function createTestRepo(): Promise<TestContext> {
     await mkdir(repoDir, { recursive: true });
 
     // Initialize git repo
-    await execa('git', ['init'], { cwd: repoDir });
+    await execa('git', ['init', '-b', 'main'], { cwd: repoDir });
     await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: repoDir });
     await execa('git', ['config', 'user.name', 'Test User'], { cwd: repoDir });
 
@@ -55,15 +56,17 @@ async function createTestRepo(): Promise<TestContext> {
 /**
  * Run the CLI with the given arguments
  */
-async function runCli(args: string[], cwd: string, options: { stdin?: string } = {}): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+async function runCli(args: string[], cwd: string, options: { stdin?: string; env?: Record<string, string> } = {}): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     try {
         const result = await execa('node', [CLI_PATH, ...args], {
             cwd,
             reject: false,
+            input: options.stdin,
             env: {
                 ...process.env,
                 // Disable editor opening in tests
                 WT_EDITOR: 'none',
+                ...options.env,
             },
         });
         return {
@@ -148,6 +151,133 @@ describe('wt list', () => {
         expect(result.stdout).toContain(ctx.repoDir);
         expect(result.stdout).toContain('main');
     });
+
+    it('should output worktrees as JSON', async () => {
+        const result = await runCli(['list', '--json'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+
+        const entries = JSON.parse(result.stdout);
+        expect(entries[0].branch).toBe('main');
+        expect(entries[0].isMain).toBe(true);
+        expect(entries[0].dirty).toBe(false);
+        expect(entries[0].upstream).toBeNull();
+    });
+
+    it('should filter and sort worktrees', async () => {
+        const dirtyPath = join(ctx.testDir, 'dirty-wt');
+        const cleanPath = join(ctx.testDir, 'clean-wt');
+        await execa('git', ['worktree', 'add', '-b', 'b-dirty', dirtyPath], { cwd: ctx.repoDir });
+        await execa('git', ['worktree', 'add', '-b', 'a-clean', cleanPath], { cwd: ctx.repoDir });
+        await writeFile(join(dirtyPath, 'change.txt'), 'dirty');
+
+        const dirty = await runCli(['list', '--dirty', '--format', '{branch}'], ctx.repoDir);
+        expect(dirty.stdout).toBe('b-dirty');
+
+        const sorted = await runCli(['list', '--clean', '--sort', 'branch', '--format', '{branch}'], ctx.repoDir);
+        expect(sorted.stdout.split('\n')).toEqual(['a-clean', 'main']);
+
+        const invalid = await runCli(['list', '--sort', 'size'], ctx.repoDir);
+        expect(invalid.exitCode).toBe(1);
+        expect(invalid.stderr).toContain('Invalid sort key');
+
+        // Cleanup
+        await execa('git', ['worktree', 'remove', '--force', dirtyPath], { cwd: ctx.repoDir }).catch(() => {});
+        await execa('git', ['worktree', 'remove', '--force', cleanPath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should output worktrees using a format template', async () => {
+        const result = await runCli(['list', '--format', '{branch}\\t{isMain}'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toBe('main\ttrue');
+    });
+});
+
+describe('wt status', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should report the status of each worktree', async () => {
+        const worktreePath = join(ctx.testDir, 'status-feature');
+        await execa('git', ['worktree', 'add', '-b', 'feature/status', worktreePath], { cwd: ctx.repoDir });
+        await writeFile(join(worktreePath, 'new-file.txt'), 'untracked');
+
+        const result = await runCli(['status', '--json'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+
+        const statuses = JSON.parse(result.stdout);
+        const feature = statuses.find((s: any) => s.worktree.branch === 'feature/status');
+        expect(feature.changes.untracked).toBe(1);
+        expect(feature.defaultBranch).toBe('main');
+        expect(feature.merged).toBe(false);
+        expect(feature.lastCommit.subject).toBe('Initial commit');
+
+        // Only a branch with commits of its own counts as merged
+        await execa('git', ['commit', '--allow-empty', '-m', 'Feature work'], { cwd: worktreePath });
+        await execa('git', ['merge', '--no-ff', '-m', 'Merge feature', 'feature/status'], { cwd: ctx.repoDir });
+        const merged = JSON.parse((await runCli(['status', '--json'], ctx.repoDir)).stdout);
+        expect(merged.find((s: any) => s.worktree.branch === 'feature/status').merged).toBe(true);
+
+        // Cleanup
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+});
+
+describe('wt path / wt cd', () => {
+    let ctx: TestContext;
+    let worktreePath: string;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        worktreePath = join(ctx.testDir, 'path-feature');
+        await execa('git', ['worktree', 'add', '-b', 'feature/path', worktreePath], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should print only the worktree path for a branch', async () => {
+        const result = await runCli(['path', 'feature/path'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+        expect(await realpath(result.stdout)).toBe(await realpath(worktreePath));
+    });
+
+    it('should fail for an unknown branch', async () => {
+        const result = await runCli(['path', 'does-not-exist'], ctx.repoDir);
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toContain('Could not find a worktree');
+    });
+
+    it('should write the target to WT_CD_FILE for the shell wrapper', async () => {
+        const cdFile = join(ctx.testDir, 'cd-target');
+        const result = await runCli(['cd', 'feature/path'], ctx.repoDir, { env: { WT_CD_FILE: cdFile } });
+        expect(result.exitCode).toBe(0);
+        expect(await realpath(await readFile(cdFile, 'utf-8'))).toBe(await realpath(worktreePath));
+    });
+
+    it('should print a shell wrapper for supported shells only', async () => {
+        const zsh = await runCli(['shell-init', 'zsh'], ctx.repoDir);
+        expect(zsh.exitCode).toBe(0);
+        expect(zsh.stdout).toContain('WT_CD_FILE');
+
+        const unknown = await runCli(['shell-init', 'tcsh'], ctx.repoDir);
+        expect(unknown.exitCode).toBe(1);
+        expect(unknown.stderr).toContain('Unsupported shell');
+    });
+
+    it('should complete worktree branch names', async () => {
+        const result = await runCli(['__complete', '--', 'open', 'feature/'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout.split('\n')).toEqual(['feature/path']);
+    });
 });
 
 describe('wt new', () => {
@@ -209,6 +339,728 @@ describe('wt new', () => {
         // Cleanup
         await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
     });
+
+    it('should detect the package manager with --install and no value', async () => {
+        const repo = await createTestRepo();
+        try {
+            await writeFile(join(repo.repoDir, 'package.json'), JSON.stringify({ name: 'wt-install-test', version: '1.0.0', private: true }));
+            await execa('git', ['add', '.'], { cwd: repo.repoDir });
+            await execa('git', ['commit', '-m', 'Add package.json'], { cwd: repo.repoDir });
+
+            const worktreePath = join(repo.testDir, 'auto-install');
+            const result = await runCli(['new', 'feature/auto-install', '--path', worktreePath, '--editor', 'none', '--install'], repo.repoDir);
+
+            expect(result.exitCode).toBe(0);
+            expect(result.stdout).toContain('Detected package.json');
+            expect(result.stdout).toContain('Dependencies installed using npm.');
+        } finally {
+            await repo.cleanup();
+        }
+    }, 60000);
+
+    it('should seed node_modules from the main worktree when the lockfiles match', async () => {
+        const repo = await createTestRepo();
+        try {
+            const lockfile = { name: 'wt-seed-test', version: '1.0.0', lockfileVersion: 3, requires: true, packages: { '': { name: 'wt-seed-test', version: '1.0.0' } } };
+            await writeFile(join(repo.repoDir, 'package.json'), JSON.stringify({ name: 'wt-seed-test', version: '1.0.0', private: true }));
+            await writeFile(join(repo.repoDir, 'package-lock.json'), JSON.stringify(lockfile, null, 2) + '\n');
+            await writeFile(join(repo.repoDir, '.gitignore'), 'node_modules\n');
+            await writeFile(join(repo.repoDir, 'worktrees.json'), JSON.stringify({ seedDependencies: true }));
+            await execa('git', ['add', '.'], { cwd: repo.repoDir });
+            await execa('git', ['commit', '-m', 'Add package files'], { cwd: repo.repoDir });
+            // npm prunes unknown packages but leaves dot-directories such as caches alone
+            await mkdir(join(repo.repoDir, 'node_modules', '.cache'), { recursive: true });
+            await writeFile(join(repo.repoDir, 'node_modules', '.cache', 'seeded.txt'), 'from main');
+
+            const worktreePath = join(repo.testDir, 'seeded');
+            const result = await runCli(['new', 'feature/seeded', '--path', worktreePath, '--editor', 'none', '--install', 'npm'], repo.repoDir);
+
+            expect(result.exitCode).toBe(0);
+            expect(result.stdout).toContain('Seeded node_modules');
+            expect(await readFile(join(worktreePath, 'node_modules', '.cache', 'seeded.txt'), 'utf-8')).toBe('from main');
+        } finally {
+            await repo.cleanup();
+        }
+    }, 60000);
+
+    it('should copy and symlink ignored files configured in worktrees.json', async () => {
+        await writeFile(join(ctx.repoDir, '.gitignore'), '.env\ncerts/\n');
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({ copy: ['.env'], symlink: ['certs'] }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add worktree files config'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, '.env'), 'SECRET=1\n');
+        await mkdir(join(ctx.repoDir, 'certs'));
+        await writeFile(join(ctx.repoDir, 'certs', 'dev.pem'), 'cert\n');
+
+        const worktreePath = join(ctx.testDir, 'with-files');
+        const result = await runCli(
+            ['new', 'feature/with-files', '--path', worktreePath, '--editor', 'none'],
+            ctx.repoDir
+        );
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('copied   .env');
+        expect(result.stdout).toContain('linked   certs');
+        expect(await readFile(join(worktreePath, '.env'), 'utf-8')).toBe('SECRET=1\n');
+        expect(await readFile(join(worktreePath, 'certs', 'dev.pem'), 'utf-8')).toBe('cert\n');
+
+        // Cleanup
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+});
+
+describe('wt setup', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['exit 3', 'touch after-failure'],
+            onFailure: 'rollback',
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add failing setup'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should roll back the worktree when onFailure is rollback', async () => {
+        const worktreePath = join(ctx.testDir, 'setup-rollback');
+        const result = await runCli(['setup', 'feature/rollback', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('onFailure: rollback');
+        expect(await stat(worktreePath).then(() => true, () => false)).toBe(false);
+    });
+
+    it('should keep the log of a rolled back run for wt logs', async () => {
+        const result = await runCli(['logs', 'feature/rollback'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('# run: wt setup feature/rollback');
+        expect(result.stdout).toContain('$ exit 3');
+        expect(result.stdout).toContain('# exit code: 3');
+        expect(result.stdout).toContain('# finished:');
+        expect(result.stdout).not.toContain('$ touch after-failure');
+    });
+
+    it('should report worktrees without a log', async () => {
+        const result = await runCli(['logs', 'feature/never-created'], ctx.repoDir);
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('No setup or install log');
+    });
+
+    it('should keep separate logs for branches with the same directory name', async () => {
+        for (const branch of ['feat/x', 'feat-x']) {
+            const worktreePath = join(ctx.testDir, `logs-${branch.replace('/', '_')}`);
+            await runCli(
+                ['setup', branch, '--path', worktreePath, '--trust', '--editor', 'none', '--on-setup-failure', 'continue'],
+                ctx.repoDir
+            );
+        }
+
+        const slash = await runCli(['logs', 'feat/x'], ctx.repoDir);
+        const dash = await runCli(['logs', 'feat-x'], ctx.repoDir);
+        expect(slash.stdout).toContain('# run: wt setup feat/x');
+        expect(dash.stdout).toContain('# run: wt setup feat-x');
+    });
+
+    it('should keep the worktree and skip remaining commands with --on-setup-failure stop', async () => {
+        const worktreePath = join(ctx.testDir, 'setup-stop');
+        const result = await runCli(
+            ['setup', 'feature/stop', '--path', worktreePath, '--trust', '--editor', 'none', '--on-setup-failure', 'stop'],
+            ctx.repoDir
+        );
+
+        expect(result.exitCode).toBe(1);
+        expect(await stat(worktreePath).then(() => true, () => false)).toBe(true);
+        expect(await stat(join(worktreePath, 'after-failure')).then(() => true, () => false)).toBe(false);
+
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should run remaining commands and report failures with --on-setup-failure continue', async () => {
+        const worktreePath = join(ctx.testDir, 'setup-continue');
+        const result = await runCli(
+            ['setup', 'feature/continue', '--path', worktreePath, '--trust', '--editor', 'none', '--on-setup-failure', 'continue'],
+            ctx.repoDir
+        );
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('1 of 2 failed');
+        expect(await stat(join(worktreePath, 'after-failure')).then(() => true, () => false)).toBe(true);
+
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should reject unknown failure modes', async () => {
+        const result = await runCli(['setup', 'feature/bad', '--on-setup-failure', 'ignore'], ctx.repoDir);
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('Invalid --on-setup-failure value');
+    });
+});
+
+describe('wt init', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await writeFile(join(ctx.repoDir, 'package-lock.json'), '{}');
+        await writeFile(join(ctx.repoDir, '.env'), 'SECRET=1\n');
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should generate a valid worktrees.json with --yes', async () => {
+        const result = await runCli(['init', '--yes'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        const data = JSON.parse(await readFile(join(ctx.repoDir, 'worktrees.json'), 'utf-8'));
+        expect(data['setup-worktree']).toEqual(['npm install']);
+        expect(data.copy).toEqual(['.env']);
+
+        const validate = await runCli(['setup', 'validate'], ctx.repoDir);
+        expect(validate.exitCode).toBe(0);
+    });
+
+    it('should not replace an existing worktrees.json without --force', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), '["echo keep"]');
+
+        const result = await runCli(['init', '--yes'], ctx.repoDir);
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('--force');
+        expect(await readFile(join(ctx.repoDir, 'worktrees.json'), 'utf-8')).toBe('["echo keep"]');
+
+        const forced = await runCli(['init', '--yes', '--force'], ctx.repoDir);
+        expect(forced.exitCode).toBe(0);
+        expect(await readFile(join(ctx.repoDir, 'worktrees.json'), 'utf-8')).toContain('npm install');
+    });
+
+    it('should refuse to replace a worktrees.yaml even with --force', async () => {
+        await rm(join(ctx.repoDir, 'worktrees.json'), { force: true });
+        await writeFile(join(ctx.repoDir, 'worktrees.yaml'), 'setup-worktree:\n  - echo keep\n');
+
+        const result = await runCli(['init', '--yes', '--force'], ctx.repoDir);
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('worktrees.yaml');
+        expect(await readFile(join(ctx.repoDir, 'worktrees.yaml'), 'utf-8')).toBe('setup-worktree:\n  - echo keep\n');
+        expect(await stat(join(ctx.repoDir, 'worktrees.json')).then(() => true, () => false)).toBe(false);
+    });
+});
+
+describe('wt setup validate', () => {
+    let ctx: TestContext;
+
+    beforeEach(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterEach(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should report schema errors with line and column', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), [
+            '{',
+            '  // Comments are allowed',
+            '  "setup-worktree": ["npm ci"],',
+            '  "onFailure": "explode",',
+            '}',
+        ].join('\n'));
+
+        const result = await runCli(['setup', 'validate'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toContain('worktrees.json:4:16: "onFailure" must be one of');
+    });
+
+    it('should accept a valid worktrees.yaml', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.yaml'), 'setup-worktree:\n  - npm ci\nports: 2\n');
+
+        const result = await runCli(['setup', 'validate'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('worktrees.yaml is valid');
+    });
+
+    it('should stop wt new instead of skipping an unparsable setup file', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), '{\n  "setup-worktree": ["npm ci"]\n  "copy": [".env"]\n}');
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add broken setup'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'broken-setup');
+        const result = await runCli(['new', 'feature/broken-setup', '--path', worktreePath, '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain("worktrees.json:3:3: Expected ',' or '}'");
+        expect(await stat(worktreePath).then(() => true, () => false)).toBe(false);
+    });
+});
+
+describe('Setup profiles', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['echo common >> setup.txt'],
+            profiles: { web: ['echo web >> setup.txt'], api: ['echo api >> setup.txt'] },
+            defaultProfile: 'web',
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add setup profiles'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should run the default profile after setup-worktree', async () => {
+        const worktreePath = join(ctx.testDir, 'profile-default');
+        const result = await runCli(['setup', 'feature/profile-default', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('(profile "web")');
+        expect(await readFile(join(worktreePath, 'setup.txt'), 'utf-8')).toBe('common\nweb\n');
+    });
+
+    it('should run the profile selected with --profile', async () => {
+        const worktreePath = join(ctx.testDir, 'profile-api');
+        const result = await runCli(['setup', 'feature/profile-api', '--path', worktreePath, '--trust', '--editor', 'none', '--profile', 'api'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(await readFile(join(worktreePath, 'setup.txt'), 'utf-8')).toBe('common\napi\n');
+    });
+
+    it('should reject unknown profiles before creating the worktree', async () => {
+        const worktreePath = join(ctx.testDir, 'profile-unknown');
+        const result = await runCli(['setup', 'feature/profile-unknown', '--path', worktreePath, '--trust', '--editor', 'none', '--profile', 'docs'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('Unknown setup profile "docs". Available: web, api');
+        expect(await stat(worktreePath).then(() => true, () => false)).toBe(false);
+    });
+});
+
+describe('Dry run', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['echo "{{branch}}" > setup.txt'],
+            copy: ['.env'],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add setup'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should print the plan for wt setup without creating anything', async () => {
+        const worktreePath = join(ctx.testDir, 'dry-run');
+        const result = await runCli(['setup', 'feature/dry-run', '--path', worktreePath, '--editor', 'none', '--dry-run'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('Dry run: wt setup feature/dry-run');
+        expect(result.stdout).toContain(`${worktreePath} (will be created)`);
+        expect(result.stdout).toContain('feature/dry-run (new branch from "main")');
+        expect(result.stdout).toContain('copy      .env');
+        expect(result.stdout).toContain('echo "feature/dry-run" > setup.txt');
+        expect(result.stdout).toContain('WORKTREE_NAME=feature-dry-run');
+
+        expect(await stat(worktreePath).then(() => true, () => false)).toBe(false);
+        const { stdout: branches } = await execa('git', ['branch', '--list', 'feature/dry-run'], { cwd: ctx.repoDir });
+        expect(branches).toBe('');
+    });
+
+    it('should not preview setup commands for wt new', async () => {
+        const result = await runCli(['new', 'main', '--editor', 'none', '--dry-run'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('main (existing local branch)');
+        expect(result.stdout).toMatch(/Setup\s+not requested/);
+    });
+});
+
+describe('Conditional setup steps', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        const osKey = process.platform === 'win32' ? 'setup-worktree-windows' : 'setup-worktree-unix';
+        await writeFile(join(ctx.repoDir, 'lock.txt'), 'v1\n');
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['echo generic >> setup.txt'],
+            [osKey]: [
+                'echo os >> setup.txt',
+                { run: 'echo changed >> setup.txt', when: { changed: 'lock.txt' } },
+                { run: 'echo compose >> setup.txt', when: { exists: 'docker-compose.yml' } },
+                { run: 'echo lock >> setup.txt', when: { exists: ['missing.txt', 'lock.txt'] } },
+            ],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add conditional setup'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should prefer the OS-specific key and skip steps whose condition does not hold', async () => {
+        const worktreePath = join(ctx.testDir, 'conditional');
+        const result = await runCli(['setup', 'feature/conditional', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('Skipping: echo changed >> setup.txt (runs when lock.txt changed)');
+        expect(await readFile(join(worktreePath, 'setup.txt'), 'utf-8')).toBe('os\nlock\n');
+    });
+
+    it('should show skipped steps for confirmation', async () => {
+        const worktreePath = join(ctx.testDir, 'conditional-prompt');
+        const env = { XDG_CONFIG_HOME: join(ctx.testDir, 'config'), APPDATA: join(ctx.testDir, 'config') };
+        // Closing stdin declines the prompt
+        const result = await runCli(['setup', 'feature/conditional-prompt', '--path', worktreePath, '--editor', 'none'], ctx.repoDir, { env, stdin: '' });
+
+        expect(result.stdout).toContain('$ echo changed >> setup.txt  # runs when lock.txt changed, skipped now');
+        expect(result.stdout).toContain('$ echo lock >> setup.txt  # runs when missing.txt or lock.txt exists');
+    });
+
+    it('should run changed steps when the file differs from the main worktree', async () => {
+        await execa('git', ['checkout', '-b', 'feature/new-lock'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, 'lock.txt'), 'v2\n');
+        await execa('git', ['commit', '-am', 'Bump lock'], { cwd: ctx.repoDir });
+        await execa('git', ['checkout', 'main'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'conditional-changed');
+        const result = await runCli(['setup', 'feature/new-lock', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(await readFile(join(worktreePath, 'setup.txt'), 'utf-8')).toBe('os\nchanged\nlock\n');
+    });
+});
+
+describe('Setup step options', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await mkdir(join(ctx.repoDir, 'sub'));
+        await writeFile(join(ctx.repoDir, 'sub', '.keep'), '');
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add sub'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should retry, run in cwd and run parallel groups side by side', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': [
+                { run: 'test -f attempt.txt || (touch attempt.txt; exit 1)', retries: 1 },
+                { run: 'pwd > ../cwd.txt', cwd: 'sub' },
+                { run: 'echo a > a.txt', parallel: 'prepare' },
+                { run: 'echo held-back; exit 3', parallel: 'prepare' },
+            ],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add step options'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'options');
+        const result = await runCli(['setup', 'feature/options', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stderr).toContain('2 attempts');
+        expect(result.stderr).toContain('Running 2 steps in parallel (group "prepare")');
+        expect(result.stderr).toContain('Failed: echo held-back; exit 3');
+        expect(result.stdout).toContain('held-back');
+        expect(result.stdout).toContain('1 of 4 failed');
+        expect((await readFile(join(worktreePath, 'cwd.txt'), 'utf-8')).trim()).toBe(await realpath(join(worktreePath, 'sub')));
+        expect(await readFile(join(worktreePath, 'a.txt'), 'utf-8')).toBe('a\n');
+    });
+
+    it('should write each parallel step to the log in one piece', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': [
+                { run: 'echo a-start; sleep 0.4; echo a-end', parallel: 'both' },
+                { run: 'sleep 0.2; echo b-out; exit 4', parallel: 'both' },
+            ],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add parallel steps'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'parallel-log');
+        await runCli(['setup', 'feature/parallel-log', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        const log = (await runCli(['logs', 'feature/parallel-log'], ctx.repoDir)).stdout;
+        expect(log).toMatch(/\$ echo a-start; sleep 0\.4; echo a-end\n# started: [^\n]+\na-start\na-end\n# exit code: 0 /);
+        expect(log).toMatch(/\$ sleep 0\.2; echo b-out; exit 4\n# started: [^\n]+\nb-out\n# exit code: 4 /);
+    });
+
+    it('should fail a step that exceeds its timeout', async () => {
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': [{ run: 'sh -c "sleep 4; echo late > late.txt"; echo done', timeout: 0.5 }, 'echo after > after.txt'],
+            onFailure: 'stop',
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add timeout'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'timeout');
+        const startedAt = Date.now();
+        const result = await runCli(['setup', 'feature/timeout', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(Date.now() - startedAt).toBeLessThan(3500);
+        expect(result.exitCode).not.toBe(0);
+        expect(result.stderr).toContain('timed out after 0.5s');
+        await expect(stat(join(worktreePath, 'after.txt'))).rejects.toThrow();
+
+        // The shell's children were killed too, rather than left running
+        await new Promise(resolve => setTimeout(resolve, 4500));
+        await expect(stat(join(worktreePath, 'late.txt'))).rejects.toThrow();
+    });
+});
+
+describe('Setup command environment', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['echo "{{branch}}|{{name}}|$WORKTREE_BRANCH|$WORKTREE_NAME|$REPO_NAME" > setup-env.txt'],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add setup'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should expose worktree variables and replace placeholders', async () => {
+        const worktreePath = join(ctx.testDir, 'env-feature');
+        const result = await runCli(['setup', 'feature/env', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect((await readFile(join(worktreePath, 'setup-env.txt'), 'utf-8')).trim())
+            .toBe('feature/env|feature-env|feature/env|feature-env|repo');
+    });
+
+    it('should not run shell syntax from a branch name', async () => {
+        const markerPath = join(ctx.testDir, 'pwned');
+        const branch = `x;touch$IFS${markerPath};#`;
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            'setup-worktree': ['echo {{branch}} > branch.txt'],
+        }));
+        await execa('git', ['commit', '-am', 'Echo branch'], { cwd: ctx.repoDir });
+
+        const worktreePath = join(ctx.testDir, 'hostile');
+        const result = await runCli(['setup', branch, '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect((await readFile(join(worktreePath, 'branch.txt'), 'utf-8')).trim()).toBe(branch);
+        await expect(stat(markerPath)).rejects.toThrow();
+    });
+});
+
+describe('wt ports', () => {
+    let ctx: TestContext;
+    let env: Record<string, string>;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        // Keep assignments out of the real config directory
+        env = { XDG_CONFIG_HOME: join(ctx.testDir, 'config'), APPDATA: join(ctx.testDir, 'config') };
+
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            ports: { count: 2, start: 47100, envFile: '.env' },
+            'setup-worktree': ['echo "$WT_PORT {{WT_PORT_2}}" > ports.txt'],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add ports'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should assign distinct port blocks and release them on remove', async () => {
+        const first = join(ctx.testDir, 'ports-a');
+        const second = join(ctx.testDir, 'ports-b');
+
+        const resultA = await runCli(['setup', 'feature/ports-a', '--path', first, '--trust', '--editor', 'none'], ctx.repoDir, { env });
+        expect(resultA.exitCode).toBe(0);
+        const resultB = await runCli(['setup', 'feature/ports-b', '--path', second, '--trust', '--editor', 'none'], ctx.repoDir, { env });
+        expect(resultB.exitCode).toBe(0);
+
+        const portsA = (await readFile(join(first, 'ports.txt'), 'utf-8')).trim().split(' ').map(Number);
+        const portsB = (await readFile(join(second, 'ports.txt'), 'utf-8')).trim().split(' ').map(Number);
+        expect(portsA[1]).toBe(portsA[0] + 1);
+        expect(portsB[0]).not.toBe(portsA[0]);
+        expect(await readFile(join(first, '.env'), 'utf-8')).toContain(`WT_PORT=${portsA[0]}`);
+
+        const listed = JSON.parse((await runCli(['ports', '--json'], ctx.repoDir, { env })).stdout);
+        expect(listed.map((assignment: { base: number }) => assignment.base).sort()).toEqual([portsA[0], portsB[0]].sort());
+
+        const removed = await runCli(['remove', first, '--force'], ctx.repoDir, { env });
+        expect(removed.exitCode).toBe(0);
+        expect(removed.stdout).toContain('Released ports');
+
+        const remaining = JSON.parse((await runCli(['ports', '--json'], ctx.repoDir, { env })).stdout);
+        expect(remaining.map((assignment: { base: number }) => assignment.base)).toEqual([portsB[0]]);
+    });
+
+    it('should not write the ports into a symlinked env file', async () => {
+        await writeFile(join(ctx.repoDir, '.gitignore'), '.env.local\n');
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), JSON.stringify({
+            ports: { count: 1, start: 47200, envFile: '.env.local' },
+            symlink: ['.env.local'],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Link env file'], { cwd: ctx.repoDir });
+        await writeFile(join(ctx.repoDir, '.env.local'), 'SECRET=1\n');
+
+        const worktreePath = join(ctx.testDir, 'ports-linked');
+        const result = await runCli(['setup', 'feature/ports-linked', '--path', worktreePath, '--trust', '--editor', 'none'], ctx.repoDir, { env });
+
+        expect(result.exitCode).toBe(0);
+        expect(await readFile(join(ctx.repoDir, '.env.local'), 'utf-8')).toBe('SECRET=1\n');
+        expect(await readFile(join(worktreePath, '.env.local'), 'utf-8')).toMatch(/^SECRET=1\nWT_PORT=\d+\n/);
+    });
+
+    it('should not create the port store for repositories without ports', async () => {
+        const repo = await createTestRepo();
+        const isolated = { XDG_CONFIG_HOME: join(repo.testDir, 'config'), APPDATA: join(repo.testDir, 'config') };
+        try {
+            await writeFile(join(repo.repoDir, 'worktrees.json'), JSON.stringify({ 'setup-worktree': ['echo ok'] }));
+            await execa('git', ['add', '.'], { cwd: repo.repoDir });
+            await execa('git', ['commit', '-m', 'Add setup'], { cwd: repo.repoDir });
+
+            const worktreePath = join(repo.testDir, 'no-ports');
+            const result = await runCli(['setup', 'feature/no-ports', '--path', worktreePath, '--trust', '--editor', 'none'], repo.repoDir, { env: isolated });
+            expect(result.exitCode).toBe(0);
+
+            const configPath = (await runCli(['config', 'path'], repo.repoDir, { env: isolated })).stdout.split(': ').pop()!.trim();
+            await expect(stat(join(dirname(configPath), 'ports.json'))).rejects.toThrow();
+        } finally {
+            await repo.cleanup();
+        }
+    });
+});
+
+describe('wt trust', () => {
+    let ctx: TestContext;
+    let env: Record<string, string>;
+    let setupFile: string;
+
+    /**
+     * Record approvals of the current content, as answering "yes" to the prompt would
+     */
+    async function approve(scopes: string[]): Promise<void> {
+        const content = await readFile(setupFile, 'utf-8');
+        const configPath = (await runCli(['config', 'path'], ctx.repoDir, { env })).stdout.split(': ').pop()!.trim();
+        await mkdir(dirname(configPath), { recursive: true });
+        await writeFile(join(dirname(configPath), 'trust.json'), JSON.stringify({
+            entries: await Promise.all(scopes.map(async scope => ({
+                repo: await realpath(ctx.repoDir),
+                file: setupFile,
+                scope,
+                hash: createHash('sha256').update(content).digest('hex'),
+                content,
+                trustedAt: new Date().toISOString(),
+            }))),
+        }));
+    }
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+        // Keep approvals out of the real config directory
+        env = { XDG_CONFIG_HOME: join(ctx.testDir, 'config'), APPDATA: join(ctx.testDir, 'config') };
+
+        setupFile = join(await realpath(ctx.repoDir), 'worktrees.json');
+        await writeFile(setupFile, JSON.stringify({
+            'setup-worktree': ['touch approved-setup-ran'],
+            'post-open': ['echo OPENED'],
+        }));
+        await execa('git', ['add', '.'], { cwd: ctx.repoDir });
+        await execa('git', ['commit', '-m', 'Add setup'], { cwd: ctx.repoDir });
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should not run commands of a hook whose approval is missing', async () => {
+        await approve(['post-open']);
+        const worktreePath = join(ctx.testDir, 'other-hook');
+        // Closing stdin declines the prompt
+        const result = await runCli(['setup', 'feature/other-hook', '--path', worktreePath, '--editor', 'none'], ctx.repoDir, { env, stdin: '' });
+
+        expect(result.stdout).toContain('touch approved-setup-ran');
+        expect(result.stdout).not.toContain('previously approved');
+        expect(await stat(join(worktreePath, 'approved-setup-ran')).then(() => true, () => false)).toBe(false);
+
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should run approved setup files without prompting', async () => {
+        await approve(['setup-worktree']);
+        const worktreePath = join(ctx.testDir, 'trusted');
+        const result = await runCli(['setup', 'feature/trusted', '--path', worktreePath, '--editor', 'none'], ctx.repoDir, { env });
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('previously approved');
+        expect(await stat(join(worktreePath, 'approved-setup-ran')).then(() => true, () => false)).toBe(true);
+
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should list and revoke approvals', async () => {
+        const list = await runCli(['trust', 'list', '--json'], ctx.repoDir, { env });
+        expect(JSON.parse(list.stdout).map((entry: { file: string }) => entry.file)).toEqual([setupFile]);
+
+        const revoke = await runCli(['trust', 'revoke'], ctx.repoDir, { env });
+        expect(revoke.exitCode).toBe(0);
+        expect(revoke.stdout).toContain(`Revoked: ${setupFile}`);
+
+        const after = await runCli(['trust', 'list', '--json'], ctx.repoDir, { env });
+        expect(JSON.parse(after.stdout)).toEqual([]);
+    });
+
+    it('should ask again once the approval is revoked', async () => {
+        const worktreePath = join(ctx.testDir, 'changed');
+        // Closing stdin declines the prompt
+        await runCli(['setup', 'feature/changed', '--path', worktreePath, '--editor', 'none'], ctx.repoDir, { env, stdin: '' });
+
+        expect(await stat(join(worktreePath, 'approved-setup-ran')).then(() => true, () => false)).toBe(false);
+
+        await execa('git', ['worktree', 'remove', '--force', worktreePath], { cwd: ctx.repoDir }).catch(() => {});
+    });
+
+    it('should approve each setup profile separately', async () => {
+        await writeFile(setupFile, JSON.stringify({
+            'setup-worktree': ['touch approved-setup-ran'],
+            profiles: { web: ['touch web-ran'], api: ['touch api-ran'] },
+        }));
+        await execa('git', ['commit', '-am', 'Add profiles'], { cwd: ctx.repoDir });
+        await approve(['setup-worktree:web']);
+
+        const apiPath = join(ctx.testDir, 'profile-api');
+        const api = await runCli(['setup', 'feature/trust-api', '--path', apiPath, '--editor', 'none', '--profile', 'api'], ctx.repoDir, { env, stdin: '' });
+        expect(api.stdout).not.toContain('previously approved');
+        expect(await stat(join(apiPath, 'api-ran')).then(() => true, () => false)).toBe(false);
+
+        const webPath = join(ctx.testDir, 'profile-web');
+        const web = await runCli(['setup', 'feature/trust-web', '--path', webPath, '--editor', 'none', '--profile', 'web'], ctx.repoDir, { env });
+        expect(web.stdout).toContain('previously approved');
+        expect(await stat(join(webPath, 'web-ran')).then(() => true, () => false)).toBe(true);
+    });
 });
 
 describe('wt remove', () => {
@@ -244,6 +1096,78 @@ describe('wt remove', () => {
         const worktreeExists = await stat(worktreePath).then(() => true).catch(() => false);
         expect(worktreeExists).toBe(false);
     });
+    it('should run teardown-worktree hooks inside the worktree before removing it', async () => {
+        const worktreePath = join(ctx.testDir, 'with-teardown');
+        const markerPath = join(ctx.testDir, 'teardown-ran');
+        await writeFile(
+            join(ctx.repoDir, 'worktrees.json'),
+            JSON.stringify({ 'teardown-worktree': [`ls > "${markerPath}"`] })
+        );
+        await execa('git', ['worktree', 'add', '-b', 'feature/teardown', worktreePath], { cwd: ctx.repoDir });
+
+        const result = await runCli(['remove', worktreePath, '--force', '--trust'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('Teardown commands completed');
+        // The hook saw the worktree's files, so it ran before deletion
+        expect(await readFile(markerPath, 'utf-8')).toContain('README.md');
+        expect(await stat(worktreePath).then(() => true).catch(() => false)).toBe(false);
+    });
+
+    it('should warn about an invalid setup file instead of failing the removal', async () => {
+        const worktreePath = join(ctx.testDir, 'invalid-setup');
+        await writeFile(join(ctx.repoDir, 'worktrees.json'), '{ "teardown-worktree": [');
+        await execa('git', ['worktree', 'add', '-b', 'feature/invalid-setup', worktreePath], { cwd: ctx.repoDir });
+
+        const result = await runCli(['remove', worktreePath, '--force', '--trust'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stderr).toContain('Skipping teardown commands: Invalid setup file');
+        expect(await stat(worktreePath).then(() => true).catch(() => false)).toBe(false);
+    });
+
+    it('should only apply onFailure to setup-worktree hooks', async () => {
+        const worktreePath = join(ctx.testDir, 'failing-teardown');
+        await writeFile(
+            join(ctx.repoDir, 'worktrees.json'),
+            JSON.stringify({ 'teardown-worktree': ['exit 3'], onFailure: 'stop' })
+        );
+        await execa('git', ['worktree', 'add', '-b', 'feature/failing-teardown', worktreePath], { cwd: ctx.repoDir });
+
+        const result = await runCli(['remove', worktreePath, '--force', '--trust'], ctx.repoDir);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('Teardown commands completed with 1 of 1 failed');
+        expect(result.stdout).not.toContain('for inspection');
+        expect(await stat(worktreePath).then(() => true).catch(() => false)).toBe(false);
+    });
+});
+
+describe('wt repair', () => {
+    let ctx: TestContext;
+
+    beforeAll(async () => {
+        ctx = await createTestRepo();
+    });
+
+    afterAll(async () => {
+        await ctx.cleanup();
+    });
+
+    it('should re-link a worktree moved next to the main worktree', async () => {
+        const originalPath = join(ctx.testDir, 'to-move');
+        const movedPath = join(ctx.testDir, 'repo-to-move');
+        await execa('git', ['worktree', 'add', '-b', 'feature/move', originalPath], { cwd: ctx.repoDir });
+        await rename(originalPath, movedPath);
+
+        const result = await runCli(['repair'], ctx.repoDir);
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain('Found moved worktree');
+
+        const { stdout } = await execa('git', ['worktree', 'list', '--porcelain'], { cwd: ctx.repoDir });
+        expect(stdout).toContain(`worktree ${await realpath(movedPath)}`);
+        expect(stdout).not.toContain('prunable');
+    });
 });
 
 describe('Bare Repository Support', () => {
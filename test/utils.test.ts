@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
+import { Command } from 'commander';
 import { resolveWorktreeName, getShortBranchName, validateBranchName } from '../src/utils/paths.js';
+import { renderTemplate, formatBytes } from '../src/utils/format.js';
+import { formatAge, parseDuration } from '../src/utils/status.js';
+import { getCompletions } from '../src/utils/completion.js';
+import { findExecutable } from '../src/utils/doctor.js';
+import { globSegmentToRegExp } from '../src/utils/files.js';
+import { isRelativePattern, parsePortsConfig, renderCommandTemplate } from '../src/utils/setup.js';
+import { diffLines } from '../src/utils/trust.js';
+import { findFreePortBlock, getPortVariables } from '../src/utils/ports.js';
+import { parseSetupFileText } from '../src/utils/setup-file.js';
 
 describe('Path Utilities', () => {
     describe('resolveWorktreeName', () => {
@@ -128,3 +138,269 @@ describe('Atomic Operations', () => {
         expect(rolledBack).toBe(false);
     });
 });
+
+describe('Format Templates', () => {
+    const entry = {
+        path: '/repo',
+        branch: 'feature/auth',
+        locked: false,
+        upstream: null,
+    };
+
+    it('should substitute fields', () => {
+        expect(renderTemplate('{branch} {path}', entry)).toBe('feature/auth /repo');
+    });
+
+    it('should expand escape sequences', () => {
+        expect(renderTemplate('{branch}\\t{path}\\n', entry)).toBe('feature/auth\t/repo\n');
+    });
+
+    it('should render null as empty and booleans as text', () => {
+        expect(renderTemplate('[{upstream}] {locked}', entry)).toBe('[] false');
+    });
+
+    it('should reject unknown fields', () => {
+        expect(() => renderTemplate('{nope}', entry)).toThrow('Unknown format field');
+    });
+
+    it('should format byte counts with binary units', () => {
+        expect(formatBytes(512)).toBe('512 B');
+        expect(formatBytes(1536)).toBe('1.5 KiB');
+        expect(formatBytes(3 * 1024 * 1024 * 1024)).toBe('3.0 GiB');
+    });
+});
+
+describe('formatAge', () => {
+    const now = 1_700_000_000_000;
+
+    it('should format recent times as just now', () => {
+        expect(formatAge(now / 1000 - 30, now)).toBe('just now');
+    });
+
+    it('should use the largest fitting unit', () => {
+        expect(formatAge(now / 1000 - 5 * 60, now)).toBe('5m ago');
+        expect(formatAge(now / 1000 - 3 * 24 * 60 * 60, now)).toBe('3d ago');
+        expect(formatAge(now / 1000 - 14 * 24 * 60 * 60, now)).toBe('2w ago');
+    });
+});
+
+describe('Query Layer', () => {
+    it('should never run more tasks than the concurrency limit', async () => {
+        const { createLimiter } = await import('../src/utils/query.js');
+
+        const limit = createLimiter(2);
+        let active = 0;
+        let maxActive = 0;
+
+        const task = async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+        };
+
+        await Promise.all(Array.from({ length: 6 }, () => limit(task)));
+        expect(maxActive).toBe(2);
+    });
+
+    it('should memoize results per working directory', async () => {
+        const { memoizeByCwd } = await import('../src/utils/query.js');
+
+        let calls = 0;
+        const query = memoizeByCwd('test-memo', async (cwd: string) => {
+            calls++;
+            return cwd;
+        });
+
+        await query('.');
+        await query(process.cwd());
+        await query('/tmp');
+
+        expect(calls).toBe(2);
+    });
+});
+
+describe('parseDuration', () => {
+    it('should parse single units', () => {
+        expect(parseDuration('30s')).toBe(30 * 1000);
+        expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+        expect(parseDuration('2w')).toBe(14 * 24 * 60 * 60 * 1000);
+        expect(parseDuration('1mo')).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should parse combined units', () => {
+        expect(parseDuration('1d12h')).toBe(36 * 60 * 60 * 1000);
+    });
+
+    it('should reject invalid durations', () => {
+        expect(() => parseDuration('')).toThrow('Invalid duration');
+        expect(() => parseDuration('10')).toThrow('Invalid duration');
+        expect(() => parseDuration('2 weeks')).toThrow('Invalid duration');
+    });
+});
+
+describe('Shell Completion', () => {
+    const createProgram = () => {
+        const program = new Command().name('wt');
+        program.command('list').option('--json').option('--sort <key>');
+        program.command('remove').alias('rm').option('-f, --force');
+        program.command('shell-init').argument('<shell>');
+        program.command('__complete', { hidden: true });
+        const config = program.command('config');
+        config.command('set').command('provider').argument('<providerName>');
+        return program;
+    };
+
+    it('should complete top-level commands without hidden ones', async () => {
+        const candidates = await getCompletions(createProgram(), ['']);
+        expect(candidates).toContain('list');
+        expect(candidates).toContain('remove');
+        expect(candidates).not.toContain('__complete');
+    });
+
+    it('should filter candidates by the current word', async () => {
+        expect(await getCompletions(createProgram(), ['sh'])).toEqual(['shell-init']);
+    });
+
+    it('should complete options of the resolved subcommand', async () => {
+        const candidates = await getCompletions(createProgram(), ['rm', '--']);
+        expect(candidates).toContain('--force');
+        expect(candidates).not.toContain('--json');
+    });
+
+    it('should not complete the value of an option that takes one', async () => {
+        expect(await getCompletions(createProgram(), ['list', '--sort', ''])).toEqual([]);
+    });
+
+    it('should complete nested subcommands and static argument values', async () => {
+        const program = createProgram();
+        expect(await getCompletions(program, ['config', 'set', 'p'])).toEqual(['provider']);
+        expect(await getCompletions(program, ['config', 'set', 'provider', ''])).toEqual(['gh', 'glab']);
+        expect(await getCompletions(program, ['shell-init', 'f'])).toEqual(['fish']);
+    });
+
+    it('should offer subcommands together with argument values', async () => {
+        const program = createProgram();
+        program.command('completion').argument('[shell]').command('install');
+        const candidates = await getCompletions(program, ['completion', '']);
+        expect(candidates).toContain('install');
+        expect(candidates).toContain('zsh');
+        expect(await getCompletions(program, ['completion', 'bash', ''])).toEqual([]);
+    });
+});
+
+describe('findExecutable', () => {
+    it('should find executables on PATH', async () => {
+        expect(await findExecutable('git')).toMatch(/git(\.exe)?$/);
+    });
+
+    it('should return null for unknown commands', async () => {
+        expect(await findExecutable('definitely-not-a-real-command-xyz')).toBeNull();
+    });
+});
+
+describe('File patterns', () => {
+    it('should match glob segments', () => {
+        expect(globSegmentToRegExp('.env*').test('.env.local')).toBe(true);
+        expect(globSegmentToRegExp('*.pem').test('dev.pem')).toBe(true);
+        expect(globSegmentToRegExp('*.pem').test('dev.pem.bak')).toBe(false);
+        expect(globSegmentToRegExp('file?.txt').test('file1.txt')).toBe(true);
+        expect(globSegmentToRegExp('[ab].js').test('c.js')).toBe(false);
+        expect(globSegmentToRegExp('a+b').test('a+b')).toBe(true);
+    });
+
+    it('should only accept patterns inside the repository', () => {
+        expect(isRelativePattern('.env')).toBe(true);
+        expect(isRelativePattern('config/**/*.json')).toBe(true);
+        expect(isRelativePattern('/etc/passwd')).toBe(false);
+        expect(isRelativePattern('../other/.env')).toBe(false);
+    });
+});
+
+describe('diffLines', () => {
+    it('should mark added and removed lines', () => {
+        expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual(['  a', '- b', '  c', '+ d']);
+    });
+
+    it('should report no changes for identical text', () => {
+        expect(diffLines('a\nb', 'a\nb')).toEqual(['  a', '  b']);
+    });
+});
+
+describe('renderCommandTemplate', () => {
+    const env = { WORKTREE_BRANCH: 'feature/auth', WORKTREE_NAME: 'feature-auth', REPO_NAME: 'app' };
+
+    it('should replace short and environment variable placeholders', () => {
+        expect(renderCommandTemplate('createdb {{repo}}_{{ name }}', env)).toBe('createdb app_feature-auth');
+        expect(renderCommandTemplate('echo {{WORKTREE_BRANCH}}', env)).toBe('echo feature/auth');
+    });
+
+    it('should render known variables without a value as empty', () => {
+        expect(renderCommandTemplate('echo pr-{{pr}}', env)).toBe('echo pr-');
+    });
+
+    it('should reject unknown placeholders', () => {
+        expect(() => renderCommandTemplate('echo {{brnch}}', env)).toThrow('Unknown placeholder {{brnch}}');
+    });
+
+    it('should refer to the environment for values with shell syntax', () => {
+        const hostile = { ...env, WORKTREE_BRANCH: 'x;touch$IFS/tmp/pwned;#' };
+        expect(renderCommandTemplate('echo {{branch}} > branch.txt', hostile, 'linux')).toBe('echo "$WORKTREE_BRANCH" > branch.txt');
+        expect(() => renderCommandTemplate('echo {{branch}}', { ...env, WORKTREE_BRANCH: 'x&del *' }, 'win32')).toThrow('cmd.exe');
+        expect(renderCommandTemplate('cd {{path}}', { WORKTREE_PATH: 'C:\\src\\my app' }, 'win32')).toBe('cd C:\\src\\my app');
+    });
+});
+
+describe('Port allocation', () => {
+    it('should find the lowest aligned block that does not overlap', () => {
+        expect(findFreePortBlock([], 3, 4000)).toBe(4000);
+        expect(findFreePortBlock([{ base: 4000, count: 3 }], 3, 4000)).toBe(4003);
+        expect(findFreePortBlock([{ base: 4000, count: 3 }, { base: 4006, count: 1 }], 3, 4000)).toBe(4003);
+        expect(findFreePortBlock([{ base: 4004, count: 1 }], 3, 4000)).toBe(4000);
+        expect(findFreePortBlock([{ base: 4001, count: 1 }], 3, 4000)).toBe(4003);
+    });
+
+    it('should skip ports in use and give up when the range is exhausted', () => {
+        expect(findFreePortBlock([], 2, 4000, new Set([4001]))).toBe(4002);
+        expect(findFreePortBlock([{ base: 65534, count: 2 }], 2, 65534)).toBeNull();
+    });
+
+    it('should expose each port of a block as a variable', () => {
+        expect(getPortVariables({ base: 4100, count: 2 })).toEqual({ WT_PORT: '4100', WT_PORT_1: '4100', WT_PORT_2: '4101' });
+    });
+
+    it('should parse the ports setting', () => {
+        expect(parsePortsConfig(true)).toEqual({ count: 1, start: 4000 });
+        expect(parsePortsConfig(3)).toEqual({ count: 3, start: 4000 });
+        expect(parsePortsConfig({ start: 5000, envFile: '.env' })).toEqual({ count: 1, start: 5000, envFile: '.env' });
+        expect(parsePortsConfig(false)).toBeNull();
+        expect(parsePortsConfig({ count: 0 })).toContain('count');
+        expect(parsePortsConfig({ envFile: '../.env' })).toContain('envFile');
+    });
+});
+
+describe('parseSetupFileText', () => {
+    it('should accept comments and trailing commas in JSON', () => {
+        const text = '{\n  // Install first\n  "setup-worktree": ["npm ci", /* then */ "npm test",],\n}\n';
+        const parsed = parseSetupFileText('worktrees.json', text);
+        expect(parsed.data).toEqual({ 'setup-worktree': ['npm ci', 'npm test'] });
+        expect(parsed.locate(['setup-worktree', 1])).toEqual({ line: 3, column: 43 });
+    });
+
+    it('should report the line and column of JSON syntax errors', () => {
+        expect(() => parseSetupFileText('worktrees.json', '{\n  "copy": [".env" ".env.local"]\n}')).toThrow("Expected ',' or ']'");
+        try {
+            parseSetupFileText('worktrees.json', '{\n  "copy": [".env" ".env.local"]\n}');
+        } catch (error: any) {
+            expect(error.position).toEqual({ line: 2, column: 19 });
+        }
+        expect(() => parseSetupFileText('worktrees.json', '{"copy": [], "copy": []}')).toThrow('Duplicate key "copy"');
+    });
+
+    it('should parse YAML and locate its values', () => {
+        const parsed = parseSetupFileText('worktrees.yaml', 'setup-worktree:\n  - npm ci\nonFailure: stop\n');
+        expect(parsed.data).toEqual({ 'setup-worktree': ['npm ci'], onFailure: 'stop' });
+        expect(parsed.locate(['onFailure'])).toEqual({ line: 3, column: 12 });
+        expect(() => parseSetupFileText('worktrees.yml', 'copy:\n  - [\n')).toThrow();
+    });
+});